@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'bun:test';
+
+import { type AssemblyAiTranscriptJson, parseAssemblyAiTranscript } from './assemblyai';
+
+describe('assemblyai', () => {
+    describe('parseAssemblyAiTranscript', () => {
+        it('should map utterances into segments in seconds', () => {
+            const transcript: AssemblyAiTranscriptJson = {
+                utterances: [
+                    {
+                        speaker: 'A',
+                        text: 'Welcome back.',
+                        words: [
+                            { confidence: 0.98, end: 500, speaker: 'A', start: 250, text: 'Welcome' },
+                            { confidence: 0.91, end: 900, speaker: 'A', start: 500, text: 'back.' },
+                        ],
+                    },
+                    {
+                        speaker: 'B',
+                        text: 'Thanks!',
+                        words: [{ confidence: 0.7, end: 1600, speaker: 'B', start: 1200, text: 'Thanks!' }],
+                    },
+                ],
+            };
+
+            expect(parseAssemblyAiTranscript(transcript)).toEqual([
+                {
+                    end: 0.9,
+                    speaker: 'A',
+                    start: 0.25,
+                    text: 'Welcome back.',
+                    tokens: [
+                        { confidence: 0.98, end: 0.5, speaker: 'A', start: 0.25, text: 'Welcome' },
+                        { confidence: 0.91, end: 0.9, speaker: 'A', start: 0.5, text: 'back.' },
+                    ],
+                },
+                {
+                    end: 1.6,
+                    speaker: 'B',
+                    start: 1.2,
+                    text: 'Thanks!',
+                    tokens: [{ confidence: 0.7, end: 1.6, speaker: 'B', start: 1.2, text: 'Thanks!' }],
+                },
+            ]);
+        });
+
+        it('should use the words when speaker labels were not requested', () => {
+            const transcript: AssemblyAiTranscriptJson = {
+                utterances: null,
+                words: [
+                    { confidence: 0.9, end: 400, speaker: null, start: 0, text: 'Hello' },
+                    { confidence: 0.8, end: 800, speaker: null, start: 400, text: 'there.' },
+                ],
+            };
+
+            expect(parseAssemblyAiTranscript(transcript)).toEqual([
+                {
+                    end: 0.8,
+                    start: 0,
+                    text: 'Hello there.',
+                    tokens: [
+                        { confidence: 0.9, end: 0.4, start: 0, text: 'Hello' },
+                        { confidence: 0.8, end: 0.8, start: 0.4, text: 'there.' },
+                    ],
+                },
+            ]);
+        });
+    });
+});
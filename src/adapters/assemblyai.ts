@@ -0,0 +1,53 @@
+import { type AsrSegment, createAsrSegment, createAsrToken, groupTokensBySpeaker } from './common';
+
+/**
+ * A word of an AssemblyAI transcript. Timings are in milliseconds.
+ */
+export type AssemblyAiWordJson = {
+    confidence?: number;
+    end: number;
+    speaker?: null | string;
+    start: number;
+    text: string;
+};
+
+/**
+ * A saved AssemblyAI transcript (`GET /v2/transcript/:id`).
+ */
+export type AssemblyAiTranscriptJson = {
+    text?: string;
+    utterances?:
+        | null
+        | {
+              speaker?: string;
+              text?: string;
+              words: AssemblyAiWordJson[];
+          }[];
+    words?: AssemblyAiWordJson[] | null;
+};
+
+const mapWords = (words: AssemblyAiWordJson[]) =>
+    words
+        .map((w) => createAsrToken(w.text, w.start / 1000, w.end / 1000, w.confidence, w.speaker ?? undefined))
+        .filter((t) => t.text);
+
+/**
+ * Converts an AssemblyAI transcript into segments.
+ *
+ * When speaker labels were requested each utterance becomes a segment; otherwise all words form a single segment.
+ * Word timings are converted from milliseconds to seconds, and the already punctuated word text, confidence and
+ * speaker are carried onto each token.
+ *
+ * @param {AssemblyAiTranscriptJson} transcript - The saved AssemblyAI JSON transcript
+ * @returns {AsrSegment[]} Segments with word-level tokens
+ */
+export const parseAssemblyAiTranscript = (transcript: AssemblyAiTranscriptJson): AsrSegment[] => {
+    if (transcript.utterances?.length) {
+        return transcript.utterances
+            .map((utterance) => ({ text: utterance.text, tokens: mapWords(utterance.words) }))
+            .filter(({ tokens }) => tokens.length > 0)
+            .map(({ text, tokens }) => createAsrSegment(tokens, text));
+    }
+
+    return groupTokensBySpeaker(mapWords(transcript.words ?? []));
+};
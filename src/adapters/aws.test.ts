@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'bun:test';
+
+import { type AwsTranscribeResultJson, parseAwsTranscribeResult } from './aws';
+
+describe('aws', () => {
+    describe('parseAwsTranscribeResult', () => {
+        it('should attach punctuation and split by speaker label', () => {
+            const result: AwsTranscribeResultJson = {
+                results: {
+                    items: [
+                        {
+                            alternatives: [{ confidence: '0.99', content: 'Hello' }],
+                            end_time: '0.5',
+                            speaker_label: 'spk_0',
+                            start_time: '0.04',
+                            type: 'pronunciation',
+                        },
+                        { alternatives: [{ confidence: '0.0', content: '.' }], type: 'punctuation' },
+                        {
+                            alternatives: [{ confidence: '0.8', content: 'Hi' }],
+                            end_time: '1.5',
+                            speaker_label: 'spk_1',
+                            start_time: '1.1',
+                            type: 'pronunciation',
+                        },
+                    ],
+                    transcripts: [{ transcript: 'Hello. Hi' }],
+                },
+            };
+
+            expect(parseAwsTranscribeResult(result)).toEqual([
+                {
+                    end: 0.5,
+                    speaker: 'spk_0',
+                    start: 0.04,
+                    text: 'Hello.',
+                    tokens: [{ confidence: 0.99, end: 0.5, speaker: 'spk_0', start: 0.04, text: 'Hello.' }],
+                },
+                {
+                    end: 1.5,
+                    speaker: 'spk_1',
+                    start: 1.1,
+                    text: 'Hi',
+                    tokens: [{ confidence: 0.8, end: 1.5, speaker: 'spk_1', start: 1.1, text: 'Hi' }],
+                },
+            ]);
+        });
+
+        it('should read speakers from speaker_labels in older results', () => {
+            const result: AwsTranscribeResultJson = {
+                results: {
+                    items: [
+                        { alternatives: [{ content: ',' }], type: 'punctuation' },
+                        {
+                            alternatives: [{ content: 'One' }],
+                            end_time: '0.5',
+                            start_time: '0.0',
+                            type: 'pronunciation',
+                        },
+                        {
+                            alternatives: [{ content: 'two' }],
+                            end_time: '1.0',
+                            start_time: '0.5',
+                            type: 'pronunciation',
+                        },
+                    ],
+                    speaker_labels: {
+                        segments: [
+                            {
+                                end_time: '1.0',
+                                items: [
+                                    { end_time: '0.5', speaker_label: 'spk_0', start_time: '0.0' },
+                                    { end_time: '1.0', speaker_label: 'spk_0', start_time: '0.5' },
+                                ],
+                                speaker_label: 'spk_0',
+                                start_time: '0.0',
+                            },
+                        ],
+                    },
+                },
+            };
+
+            expect(parseAwsTranscribeResult(result)).toEqual([
+                {
+                    end: 1,
+                    speaker: 'spk_0',
+                    start: 0,
+                    text: 'One two',
+                    tokens: [
+                        { end: 0.5, speaker: 'spk_0', start: 0, text: 'One' },
+                        { end: 1, speaker: 'spk_0', start: 0.5, text: 'two' },
+                    ],
+                },
+            ]);
+        });
+
+        it('should skip words that have no timings', () => {
+            const result: AwsTranscribeResultJson = {
+                results: {
+                    items: [
+                        {
+                            alternatives: [{ content: 'One' }],
+                            end_time: '0.5',
+                            start_time: '0.0',
+                            type: 'pronunciation',
+                        },
+                        { alternatives: [{ content: 'uh' }], type: 'pronunciation' },
+                        {
+                            alternatives: [{ content: 'two' }],
+                            end_time: '1.0',
+                            start_time: '0.5',
+                            type: 'pronunciation',
+                        },
+                    ],
+                },
+            };
+
+            expect(parseAwsTranscribeResult(result)).toEqual([
+                {
+                    end: 1,
+                    start: 0,
+                    text: 'One two',
+                    tokens: [
+                        { end: 0.5, start: 0, text: 'One' },
+                        { end: 1, start: 0.5, text: 'two' },
+                    ],
+                },
+            ]);
+        });
+    });
+});
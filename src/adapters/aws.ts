@@ -0,0 +1,95 @@
+import { type AsrSegment, type AsrToken, attachPunctuation, createAsrToken, groupTokensBySpeaker } from './common';
+
+/**
+ * An item of an Amazon Transcribe result. Numeric values are serialized as strings, timings are in seconds.
+ */
+export type AwsTranscribeItemJson = {
+    alternatives: { confidence?: string; content: string }[];
+    end_time?: string;
+    speaker_label?: string;
+    start_time?: string;
+    type: 'pronunciation' | 'punctuation';
+};
+
+/**
+ * A saved Amazon Transcribe job result.
+ */
+export type AwsTranscribeResultJson = {
+    results: {
+        items: AwsTranscribeItemJson[];
+        speaker_labels?: {
+            segments: {
+                end_time: string;
+                items?: { end_time: string; speaker_label: string; start_time: string }[];
+                speaker_label: string;
+                start_time: string;
+            }[];
+        };
+        transcripts?: { transcript: string }[];
+    };
+};
+
+const toNumber = (value?: string) => (value === undefined ? undefined : Number(value));
+
+/**
+ * Older Transcribe results only list the speaker of each word under `speaker_labels`, keyed by its start time.
+ */
+const buildSpeakerLookup = (result: AwsTranscribeResultJson['results']): Map<string, string> => {
+    const lookup = new Map<string, string>();
+
+    for (const segment of result.speaker_labels?.segments ?? []) {
+        for (const item of segment.items ?? []) {
+            lookup.set(item.start_time, item.speaker_label);
+        }
+    }
+
+    return lookup;
+};
+
+/**
+ * Converts an Amazon Transcribe job result into segments, one per speaker turn
+ * (or a single segment without speaker identification).
+ *
+ * Punctuation items are attached to the preceding word, string timings and confidences are converted to numbers, words
+ * without timings are skipped, and speaker labels are read from each item or, for older results, from `speaker_labels`.
+ *
+ * @param {AwsTranscribeResultJson} result - The saved Amazon Transcribe JSON result
+ * @returns {AsrSegment[]} Segments with word-level tokens
+ */
+export const parseAwsTranscribeResult = (result: AwsTranscribeResultJson): AsrSegment[] => {
+    const speakers = buildSpeakerLookup(result.results);
+    const tokens: AsrToken[] = [];
+
+    for (const item of result.results.items) {
+        const [best] = item.alternatives;
+
+        if (!best?.content) {
+            continue;
+        }
+
+        if (item.type === 'punctuation') {
+            attachPunctuation(tokens, best.content);
+            continue;
+        }
+
+        const start = toNumber(item.start_time);
+        const end = toNumber(item.end_time);
+
+        // Words without timings cannot be placed on the timeline
+        if (!Number.isFinite(start) || !Number.isFinite(end)) {
+            continue;
+        }
+
+        tokens.push(
+            createAsrToken(
+                best.content,
+                start!,
+                end!,
+                toNumber(best.confidence),
+                item.speaker_label ?? (item.start_time ? speakers.get(item.start_time) : undefined),
+            ),
+        );
+    }
+
+    return groupTokensBySpeaker(tokens);
+};
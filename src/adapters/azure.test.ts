@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'bun:test';
+
+import { type AzureTranscriptionJson, parseAzureTranscription } from './azure';
+
+describe('azure', () => {
+    describe('parseAzureTranscription', () => {
+        it('should map recognized phrases using display words and ticks', () => {
+            const transcription: AzureTranscriptionJson = {
+                recognizedPhrases: [
+                    {
+                        nBest: [
+                            {
+                                confidence: 0.9,
+                                display: 'Hello world.',
+                                displayWords: [
+                                    { displayText: 'Hello', durationInTicks: 4_000_000, offsetInTicks: 700_000 },
+                                    { displayText: 'world.', durationInTicks: 5_000_000, offsetInTicks: 4_700_000 },
+                                ],
+                                words: [
+                                    {
+                                        confidence: 0.95,
+                                        durationInTicks: 4_000_000,
+                                        offsetInTicks: 700_000,
+                                        word: 'hello',
+                                    },
+                                ],
+                            },
+                        ],
+                        recognitionStatus: 'Success',
+                        speaker: 1,
+                    },
+                    { nBest: [], recognitionStatus: 'NoMatch' },
+                    {
+                        nBest: [
+                            {
+                                words: [
+                                    {
+                                        confidence: 0.5,
+                                        durationInTicks: 10_000_000,
+                                        offsetInTicks: 20_000_000,
+                                        word: 'bye',
+                                    },
+                                ],
+                            },
+                        ],
+                        speaker: 2,
+                    },
+                ],
+            };
+
+            expect(parseAzureTranscription(transcription)).toEqual([
+                {
+                    end: 0.97,
+                    speaker: '1',
+                    start: 0.07,
+                    text: 'Hello world.',
+                    tokens: [
+                        { end: 0.47, speaker: '1', start: 0.07, text: 'Hello' },
+                        { end: 0.97, speaker: '1', start: 0.47, text: 'world.' },
+                    ],
+                },
+                {
+                    end: 3,
+                    speaker: '2',
+                    start: 2,
+                    text: 'bye',
+                    tokens: [{ confidence: 0.5, end: 3, speaker: '2', start: 2, text: 'bye' }],
+                },
+            ]);
+        });
+    });
+});
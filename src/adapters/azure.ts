@@ -0,0 +1,64 @@
+import { type AsrSegment, createAsrSegment, createAsrToken } from './common';
+
+const TICKS_PER_SECOND = 10_000_000;
+
+/**
+ * A word of an Azure Speech batch transcription. Timings are in 100-nanosecond ticks.
+ */
+export type AzureWordJson = {
+    confidence?: number;
+    displayText?: string;
+    durationInTicks: number;
+    offsetInTicks: number;
+    word?: string;
+};
+
+/**
+ * A saved Azure Speech batch transcription result file.
+ */
+export type AzureTranscriptionJson = {
+    recognizedPhrases: {
+        nBest: {
+            confidence?: number;
+            display?: string;
+            displayWords?: AzureWordJson[];
+            words?: AzureWordJson[];
+        }[];
+        recognitionStatus?: string;
+        speaker?: number;
+    }[];
+};
+
+/**
+ * Converts an Azure Speech batch transcription into segments, one per recognized phrase.
+ *
+ * Uses the best `nBest` entry of each successfully recognized phrase. Tokens prefer `displayWords` (punctuated and
+ * capitalized, requested with `displayFormWordLevelTimestampsEnabled`) over the lexical `words`, carry the word
+ * confidence and the phrase speaker, and are converted from ticks to seconds.
+ *
+ * @param {AzureTranscriptionJson} transcription - The saved Azure batch transcription JSON
+ * @returns {AsrSegment[]} Segments with word-level tokens
+ */
+export const parseAzureTranscription = (transcription: AzureTranscriptionJson): AsrSegment[] => {
+    return transcription.recognizedPhrases
+        .filter((phrase) => !phrase.recognitionStatus || phrase.recognitionStatus === 'Success')
+        .map((phrase) => {
+            const [best] = phrase.nBest;
+            const words = best?.displayWords?.length ? best.displayWords : (best?.words ?? []);
+            const tokens = words
+                .map((w) =>
+                    createAsrToken(
+                        w.displayText ?? w.word ?? '',
+                        w.offsetInTicks / TICKS_PER_SECOND,
+                        (w.offsetInTicks + w.durationInTicks) / TICKS_PER_SECOND,
+                        w.confidence,
+                        phrase.speaker,
+                    ),
+                )
+                .filter((t) => t.text);
+
+            return { text: best?.display, tokens };
+        })
+        .filter(({ tokens }) => tokens.length > 0)
+        .map(({ text, tokens }) => createAsrSegment(tokens, text));
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'bun:test';
+
+import { attachPunctuation, createAsrToken, groupTokensBySpeaker } from './common';
+
+describe('common', () => {
+    describe('createAsrToken', () => {
+        it('should trim text and omit missing optional fields', () => {
+            expect(createAsrToken(' hi ', 0, 1)).toEqual({ end: 1, start: 0, text: 'hi' });
+            expect(createAsrToken('hi', 0, 1, 0.5, 0)).toEqual({
+                confidence: 0.5,
+                end: 1,
+                speaker: '0',
+                start: 0,
+                text: 'hi',
+            });
+        });
+    });
+
+    describe('attachPunctuation', () => {
+        it('should append to the previous token only when there is one', () => {
+            const tokens = [createAsrToken('Hello', 0, 1)];
+            expect(attachPunctuation([], '.')).toBeFalse();
+            expect(attachPunctuation(tokens, '.')).toBeTrue();
+            expect(tokens[0].text).toBe('Hello.');
+        });
+    });
+
+    describe('groupTokensBySpeaker', () => {
+        it('should start a new segment on every speaker change', () => {
+            const tokens = [
+                createAsrToken('a', 0, 1, undefined, 'A'),
+                createAsrToken('b', 1, 2, undefined, 'B'),
+                createAsrToken('c', 2, 3, undefined, 'A'),
+            ];
+
+            expect(groupTokensBySpeaker(tokens).map((s) => [s.speaker, s.text])).toEqual([
+                ['A', 'a'],
+                ['B', 'b'],
+                ['A', 'c'],
+            ]);
+        });
+
+        it('should return no segments for no tokens', () => {
+            expect(groupTokensBySpeaker([])).toEqual([]);
+        });
+    });
+});
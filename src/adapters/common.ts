@@ -0,0 +1,83 @@
+import type { Segment, Token } from '@/types';
+
+/**
+ * A token produced by a cloud ASR adapter, carrying the speaker label when the vendor provides one.
+ */
+export type AsrToken = Token & {
+    /** Speaker label assigned by the vendor's diarization */
+    speaker?: string;
+};
+
+/**
+ * A segment produced by a cloud ASR adapter. `speaker` is set when every token of the segment has the same speaker.
+ */
+export type AsrSegment = Segment & {
+    speaker?: string;
+    tokens: AsrToken[];
+};
+
+/**
+ * Builds an `AsrToken`, omitting the optional fields the vendor did not provide.
+ */
+export const createAsrToken = (
+    text: string,
+    start: number,
+    end: number,
+    confidence?: number,
+    speaker?: number | string,
+): AsrToken => ({
+    end,
+    start,
+    text: text.trim(),
+    ...(confidence !== undefined && { confidence }),
+    ...(speaker !== undefined && speaker !== null && { speaker: `${speaker}` }),
+});
+
+/**
+ * Appends punctuation that the vendor reports as a standalone item to the preceding token.
+ * Returns `false` if there is no token to attach to.
+ */
+export const attachPunctuation = (tokens: AsrToken[], punctuation: string): boolean => {
+    const prev = tokens.at(-1);
+
+    if (!prev) {
+        return false;
+    }
+
+    prev.text += punctuation.trim();
+    return true;
+};
+
+/**
+ * Builds a segment from tokens, using `text` if provided or joining the token texts otherwise.
+ */
+export const createAsrSegment = (tokens: AsrToken[], text?: string): AsrSegment => {
+    const speaker = tokens[0].speaker;
+
+    return {
+        end: tokens.at(-1)!.end,
+        start: tokens[0].start,
+        text: text?.trim() || tokens.map((t) => t.text).join(' '),
+        tokens,
+        ...(speaker !== undefined && tokens.every((t) => t.speaker === speaker) && { speaker }),
+    };
+};
+
+/**
+ * Splits a token stream into segments wherever the speaker changes. Without speaker labels this yields one segment.
+ */
+export const groupTokensBySpeaker = (tokens: AsrToken[]): AsrSegment[] => {
+    const groups: AsrToken[][] = [];
+
+    for (const token of tokens) {
+        const current = groups.at(-1);
+
+        if (current && current[0].speaker === token.speaker) {
+            current.push(token);
+        } else {
+            groups.push([token]);
+        }
+    }
+
+    return groups.map((group) => createAsrSegment(group));
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'bun:test';
+
+import { type DeepgramResponseJson, parseDeepgramResponse } from './deepgram';
+
+describe('deepgram', () => {
+    describe('parseDeepgramResponse', () => {
+        const words = [
+            { confidence: 0.99, end: 0.4, punctuated_word: 'Hello,', speaker: 0, start: 0, word: 'hello' },
+            { confidence: 0.95, end: 0.9, punctuated_word: 'everyone.', speaker: 0, start: 0.4, word: 'everyone' },
+            { confidence: 0.6, end: 2, punctuated_word: 'Question?', speaker: 1, start: 1.5, word: 'question' },
+        ];
+
+        it('should split channel words by speaker using punctuated words', () => {
+            const response: DeepgramResponseJson = {
+                results: { channels: [{ alternatives: [{ transcript: 'hello everyone question', words }] }] },
+            };
+
+            expect(parseDeepgramResponse(response)).toEqual([
+                {
+                    end: 0.9,
+                    speaker: '0',
+                    start: 0,
+                    text: 'Hello, everyone.',
+                    tokens: [
+                        { confidence: 0.99, end: 0.4, speaker: '0', start: 0, text: 'Hello,' },
+                        { confidence: 0.95, end: 0.9, speaker: '0', start: 0.4, text: 'everyone.' },
+                    ],
+                },
+                {
+                    end: 2,
+                    speaker: '1',
+                    start: 1.5,
+                    text: 'Question?',
+                    tokens: [{ confidence: 0.6, end: 2, speaker: '1', start: 1.5, text: 'Question?' }],
+                },
+            ]);
+        });
+
+        it('should prefer utterances when present', () => {
+            const response: DeepgramResponseJson = {
+                results: {
+                    channels: [{ alternatives: [{ words }] }],
+                    utterances: [
+                        { end: 0.4, start: 0, words: words.slice(0, 1) },
+                        { end: 2, start: 0.4, transcript: 'Everyone. Question?', words: words.slice(1) },
+                    ],
+                },
+            };
+
+            const segments = parseDeepgramResponse(response);
+            expect(segments.map((s) => s.text)).toEqual(['Hello,', 'Everyone. Question?']);
+            expect(segments[1].speaker).toBeUndefined();
+        });
+
+        it('should fall back to the plain word without diarization', () => {
+            const response: DeepgramResponseJson = {
+                results: { channels: [{ alternatives: [{ words: [{ end: 1, start: 0, word: 'hi' }] }] }] },
+            };
+
+            expect(parseDeepgramResponse(response)).toEqual([
+                { end: 1, start: 0, text: 'hi', tokens: [{ end: 1, start: 0, text: 'hi' }] },
+            ]);
+        });
+
+        it('should return no segments for an empty response', () => {
+            expect(parseDeepgramResponse({ results: { channels: [] } })).toEqual([]);
+        });
+    });
+});
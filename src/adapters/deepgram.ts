@@ -0,0 +1,62 @@
+import { type AsrSegment, createAsrSegment, createAsrToken, groupTokensBySpeaker } from './common';
+
+/**
+ * A word of a Deepgram pre-recorded response. Timings are in seconds.
+ */
+export type DeepgramWordJson = {
+    confidence?: number;
+    end: number;
+    punctuated_word?: string;
+    speaker?: number;
+    start: number;
+    word: string;
+};
+
+/**
+ * A saved Deepgram pre-recorded (`/v1/listen`) response.
+ */
+export type DeepgramResponseJson = {
+    results: {
+        channels: {
+            alternatives: {
+                transcript?: string;
+                words?: DeepgramWordJson[];
+            }[];
+        }[];
+        utterances?: {
+            end: number;
+            start: number;
+            transcript?: string;
+            words: DeepgramWordJson[];
+        }[];
+    };
+};
+
+const mapWords = (words: DeepgramWordJson[]) =>
+    words
+        .map((w) => createAsrToken(w.punctuated_word ?? w.word, w.start, w.end, w.confidence, w.speaker))
+        .filter((t) => t.text);
+
+/**
+ * Converts a Deepgram pre-recorded response into segments.
+ *
+ * When the request used `utterances=true` each utterance becomes a segment carrying the utterance transcript;
+ * otherwise the words of the first channel's best alternative are split into a segment per speaker turn (or a single
+ * segment without diarization).
+ * Tokens use `punctuated_word` when `punctuate`/`smart_format` was enabled and carry the word confidence and speaker.
+ *
+ * @param {DeepgramResponseJson} response - The saved Deepgram JSON response
+ * @returns {AsrSegment[]} Segments with word-level tokens
+ */
+export const parseDeepgramResponse = (response: DeepgramResponseJson): AsrSegment[] => {
+    const { channels, utterances } = response.results;
+
+    if (utterances?.length) {
+        return utterances
+            .map((utterance) => ({ text: utterance.transcript, tokens: mapWords(utterance.words) }))
+            .filter(({ tokens }) => tokens.length > 0)
+            .map(({ text, tokens }) => createAsrSegment(tokens, text));
+    }
+
+    return groupTokensBySpeaker(mapWords(channels[0]?.alternatives[0]?.words ?? []));
+};
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'bun:test';
+
+import { type GoogleSpeechResponseJson, parseGoogleSpeechResponse } from './google';
+
+describe('google', () => {
+    describe('parseGoogleSpeechResponse', () => {
+        it('should map each result into a segment', () => {
+            const response: GoogleSpeechResponseJson = {
+                results: [
+                    {
+                        alternatives: [
+                            {
+                                confidence: 0.92,
+                                transcript: 'Hello world.',
+                                words: [
+                                    { confidence: 0.9, endTime: '0.400s', startTime: '0s', word: 'Hello' },
+                                    {
+                                        confidence: 0.8,
+                                        endTime: { nanos: 500000000, seconds: '1' },
+                                        startTime: { nanos: 400000000 },
+                                        word: 'world.',
+                                    },
+                                ],
+                            },
+                        ],
+                    },
+                    { alternatives: [{ transcript: '' }] },
+                    {
+                        alternatives: [
+                            {
+                                transcript: ' Bye',
+                                words: [{ endOffset: '3s', startOffset: '2.5s', word: 'Bye' }],
+                            },
+                        ],
+                    },
+                ],
+            };
+
+            expect(parseGoogleSpeechResponse(response)).toEqual([
+                {
+                    end: 1.5,
+                    start: 0,
+                    text: 'Hello world.',
+                    tokens: [
+                        { confidence: 0.9, end: 0.4, start: 0, text: 'Hello' },
+                        { confidence: 0.8, end: 1.5, start: 0.4, text: 'world.' },
+                    ],
+                },
+                { end: 3, start: 2.5, text: 'Bye', tokens: [{ end: 3, start: 2.5, text: 'Bye' }] },
+            ]);
+        });
+
+        it('should only use the diarized last result and split it by speaker', () => {
+            const response: GoogleSpeechResponseJson = {
+                results: [
+                    { alternatives: [{ words: [{ endTime: '1s', startTime: '0s', word: 'Salam' }] }] },
+                    { alternatives: [{ words: [{ endTime: '2s', startTime: '1s', word: 'alaykum' }] }] },
+                    {
+                        alternatives: [
+                            {
+                                words: [
+                                    { endTime: '1s', speakerTag: 1, startTime: '0s', word: 'Salam' },
+                                    { endTime: '2s', speakerTag: 2, startTime: '1s', word: 'alaykum' },
+                                ],
+                            },
+                        ],
+                    },
+                ],
+            };
+
+            expect(parseGoogleSpeechResponse(response)).toEqual([
+                {
+                    end: 1,
+                    speaker: '1',
+                    start: 0,
+                    text: 'Salam',
+                    tokens: [{ end: 1, speaker: '1', start: 0, text: 'Salam' }],
+                },
+                {
+                    end: 2,
+                    speaker: '2',
+                    start: 1,
+                    text: 'alaykum',
+                    tokens: [{ end: 2, speaker: '2', start: 1, text: 'alaykum' }],
+                },
+            ]);
+        });
+
+        it('should handle an empty response', () => {
+            expect(parseGoogleSpeechResponse({})).toEqual([]);
+        });
+    });
+});
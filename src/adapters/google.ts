@@ -0,0 +1,85 @@
+import { type AsrSegment, type AsrToken, createAsrSegment, createAsrToken, groupTokensBySpeaker } from './common';
+
+/**
+ * A duration as serialized by Google Cloud: either a string such as `"1.300s"` or a `{ seconds, nanos }` object.
+ */
+export type GoogleDurationJson = string | { nanos?: number; seconds?: number | string };
+
+/**
+ * A word of a Google Cloud Speech-to-Text (v1 or v2) result.
+ */
+export type GoogleWordJson = {
+    confidence?: number;
+    endOffset?: GoogleDurationJson;
+    endTime?: GoogleDurationJson;
+    speakerLabel?: string;
+    speakerTag?: number;
+    startOffset?: GoogleDurationJson;
+    startTime?: GoogleDurationJson;
+    word: string;
+};
+
+/**
+ * A saved Google Cloud Speech-to-Text `recognize`/`longrunningrecognize` response.
+ */
+export type GoogleSpeechResponseJson = {
+    results?: {
+        alternatives?: {
+            confidence?: number;
+            transcript?: string;
+            words?: GoogleWordJson[];
+        }[];
+    }[];
+};
+
+const parseDuration = (duration?: GoogleDurationJson): number => {
+    if (duration === undefined) {
+        return 0;
+    }
+
+    if (typeof duration === 'string') {
+        return Number.parseFloat(duration);
+    }
+
+    return Number(duration.seconds ?? 0) + (duration.nanos ?? 0) / 1e9;
+};
+
+const mapWords = (words: GoogleWordJson[]): AsrToken[] =>
+    words
+        .map((w) =>
+            createAsrToken(
+                w.word,
+                parseDuration(w.startOffset ?? w.startTime),
+                parseDuration(w.endOffset ?? w.endTime),
+                w.confidence,
+                w.speakerLabel || w.speakerTag || undefined,
+            ),
+        )
+        .filter((t) => t.text);
+
+const hasSpeakers = (words: GoogleWordJson[]) => words.length > 0 && words.every((w) => w.speakerLabel || w.speakerTag);
+
+/**
+ * Converts a Google Cloud Speech-to-Text response into segments.
+ *
+ * Each result becomes a segment using its best alternative. With speaker diarization enabled, Google repeats every word
+ * of the audio with its speaker tag in the last result only; in that case just the last result is used and it is split
+ * into a segment per speaker turn. Both the v1 (`startTime`) and v2 (`startOffset`) word timings are supported.
+ *
+ * @param {GoogleSpeechResponseJson} response - The saved Google Speech-to-Text JSON response
+ * @returns {AsrSegment[]} Segments with word-level tokens
+ */
+export const parseGoogleSpeechResponse = (response: GoogleSpeechResponseJson): AsrSegment[] => {
+    const alternatives = (response.results ?? []).map((result) => result.alternatives?.[0]);
+    const last = alternatives.at(-1)?.words ?? [];
+    const isDiarized = hasSpeakers(last) && alternatives.slice(0, -1).every((alt) => !hasSpeakers(alt?.words ?? []));
+
+    if (isDiarized) {
+        return groupTokensBySpeaker(mapWords(last));
+    }
+
+    return alternatives
+        .map((alt) => ({ text: alt?.transcript, tokens: mapWords(alt?.words ?? []) }))
+        .filter(({ tokens }) => tokens.length > 0)
+        .map(({ text, tokens }) => createAsrSegment(tokens, text));
+};
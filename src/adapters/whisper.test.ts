@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'bun:test';
+
+import { getFirstMatchingToken } from '../transcript';
+import { parseWhisperTranscription, type WhisperTranscriptionJson } from './whisper';
+
+describe('whisper', () => {
+    describe('parseWhisperTranscription', () => {
+        it('should map segment words, trim leading spaces and carry probabilities', () => {
+            const json: WhisperTranscriptionJson = {
+                segments: [
+                    {
+                        avg_logprob: -0.25,
+                        end: 2,
+                        no_speech_prob: 0.01,
+                        start: 0,
+                        text: ' Hello world.',
+                        words: [
+                            { end: 0.8, probability: 0.9, start: 0, word: ' Hello' },
+                            { end: 2, probability: 0.75, start: 0.8, word: ' world.' },
+                        ],
+                    },
+                ],
+                text: ' Hello world.',
+            };
+
+            expect(parseWhisperTranscription(json)).toEqual([
+                {
+                    avgLogprob: -0.25,
+                    end: 2,
+                    noSpeechProb: 0.01,
+                    start: 0,
+                    text: 'Hello world.',
+                    tokens: [
+                        {
+                            avgLogprob: -0.25,
+                            confidence: 0.9,
+                            end: 0.8,
+                            noSpeechProb: 0.01,
+                            probability: 0.9,
+                            start: 0,
+                            text: 'Hello',
+                        },
+                        {
+                            avgLogprob: -0.25,
+                            confidence: 0.75,
+                            end: 2,
+                            noSpeechProb: 0.01,
+                            probability: 0.75,
+                            start: 0.8,
+                            text: 'world.',
+                        },
+                    ],
+                },
+            ]);
+        });
+
+        it('should make trimmed tokens matchable by hints', () => {
+            const [segment] = parseWhisperTranscription({
+                segments: [
+                    {
+                        end: 3,
+                        start: 0,
+                        text: ' السلام عليكم',
+                        words: [
+                            { end: 1, start: 0, word: ' السلام' },
+                            { end: 3, start: 1, word: ' عليكم' },
+                        ],
+                    },
+                ],
+            });
+
+            expect(getFirstMatchingToken(segment.tokens, 'السلام عليكم')).toEqual({ end: 1, start: 0, text: 'السلام' });
+        });
+
+        it('should use the top-level words array of the OpenAI API', () => {
+            const json: WhisperTranscriptionJson = {
+                segments: [
+                    { end: 1, start: 0, text: 'One two' },
+                    { end: 2, start: 1, text: 'three' },
+                ],
+                words: [
+                    { end: 0.5, start: 0, word: 'One' },
+                    { end: 1, start: 0.5, word: 'two' },
+                    { end: 2, start: 1, word: 'three' },
+                ],
+            };
+
+            expect(parseWhisperTranscription(json).map((s) => s.tokens.map((t) => t.text))).toEqual([
+                ['One', 'two'],
+                ['three'],
+            ]);
+        });
+
+        it('should build a single segment when only words are present', () => {
+            expect(
+                parseWhisperTranscription({
+                    text: 'One two',
+                    words: [
+                        { end: 0.5, start: 0.1, word: 'One' },
+                        { end: 1, start: 0.5, word: 'two' },
+                    ],
+                }),
+            ).toEqual([
+                {
+                    end: 1,
+                    start: 0.1,
+                    text: 'One two',
+                    tokens: [
+                        { end: 0.5, start: 0.1, text: 'One' },
+                        { end: 1, start: 0.5, text: 'two' },
+                    ],
+                },
+            ]);
+        });
+
+        it('should handle WhisperX scores, unaligned words and detached punctuation', () => {
+            const [segment] = parseWhisperTranscription({
+                segments: [
+                    {
+                        end: 4,
+                        start: 0,
+                        text: ' It costs 20 dollars .',
+                        words: [
+                            { end: 0.5, score: 0.99, start: 0, word: 'It' },
+                            { end: 1, score: 0.8, start: 0.5, word: 'costs' },
+                            { word: '20' },
+                            { end: 3.5, score: 0.7, start: 2, word: 'dollars' },
+                            { word: '.' },
+                        ],
+                    },
+                ],
+            });
+
+            expect(segment.tokens).toEqual([
+                { confidence: 0.99, end: 0.5, probability: 0.99, start: 0, text: 'It' },
+                { confidence: 0.8, end: 1, probability: 0.8, start: 0.5, text: 'costs' },
+                { end: 2, start: 1, text: '20' },
+                { confidence: 0.7, end: 3.5, probability: 0.7, start: 2, text: 'dollars.' },
+            ]);
+        });
+
+        it('should estimate tokens for segments without word timings and skip empty ones', () => {
+            expect(
+                parseWhisperTranscription({
+                    segments: [
+                        { end: 2, no_speech_prob: 0.2, start: 0, text: ' Hello world' },
+                        { end: 3, start: 2, text: ' ' },
+                    ],
+                }),
+            ).toEqual([
+                {
+                    end: 2,
+                    noSpeechProb: 0.2,
+                    start: 0,
+                    text: 'Hello world',
+                    tokens: [
+                        { end: 1, noSpeechProb: 0.2, start: 0, text: 'Hello' },
+                        { end: 2, noSpeechProb: 0.2, start: 1, text: 'world' },
+                    ],
+                },
+            ]);
+        });
+    });
+});
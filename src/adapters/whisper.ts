@@ -0,0 +1,166 @@
+import type { Segment, Token } from '@/types';
+
+import { estimateSegmentFromToken } from '../transcript';
+
+/**
+ * A word as emitted by Whisper (`word_timestamps=True`), faster-whisper or WhisperX.
+ * Whisper prefixes most words with a space, WhisperX may omit timings for words it could not align.
+ */
+export type WhisperWordJson = {
+    end?: number;
+    /** Word probability reported by Whisper and faster-whisper */
+    probability?: number;
+    /** Alignment score reported by WhisperX */
+    score?: number;
+    start?: number;
+    word: string;
+};
+
+/**
+ * A segment of a Whisper `verbose_json`, faster-whisper or WhisperX transcription.
+ */
+export type WhisperSegmentJson = {
+    avg_logprob?: number;
+    end: number;
+    no_speech_prob?: number;
+    start: number;
+    text: string;
+    words?: WhisperWordJson[];
+};
+
+/**
+ * A Whisper `verbose_json`, faster-whisper or WhisperX transcription.
+ * The OpenAI API places words in a top-level `words` array instead of inside each segment.
+ */
+export type WhisperTranscriptionJson = {
+    segments?: WhisperSegmentJson[];
+    text?: string;
+    words?: WhisperWordJson[];
+};
+
+/**
+ * A token carrying the probability fields reported by Whisper.
+ */
+export type WhisperToken = Token & {
+    /** Average log probability of the segment the token came from */
+    avgLogprob?: number;
+    /** Probability that the segment the token came from contains no speech */
+    noSpeechProb?: number;
+    /** Probability (or WhisperX alignment score) of the word, between 0 and 1. Also copied to `confidence`. */
+    probability?: number;
+};
+
+/**
+ * A segment whose tokens carry the probability fields reported by Whisper.
+ */
+export type WhisperSegment = Segment & {
+    avgLogprob?: number;
+    noSpeechProb?: number;
+    tokens: WhisperToken[];
+};
+
+const isPunctuationOnly = (text: string) => /^[\p{P}\p{S}]+$/u.test(text);
+
+const withSegmentMetadata = <T extends Token>(token: T, segment: WhisperSegmentJson): T & WhisperToken => ({
+    ...token,
+    ...(segment.avg_logprob !== undefined && { avgLogprob: segment.avg_logprob }),
+    ...(segment.no_speech_prob !== undefined && { noSpeechProb: segment.no_speech_prob }),
+});
+
+/**
+ * Converts Whisper words into tokens with trimmed text. Punctuation-only words are attached to the previous
+ * token (as `tokenizeGroundTruth` does) and missing timings are filled from the neighbouring words.
+ */
+const mapWordsToTokens = (words: WhisperWordJson[], segment: WhisperSegmentJson): WhisperToken[] => {
+    const tokens: WhisperToken[] = [];
+
+    for (let i = 0; i < words.length; i++) {
+        const word = words[i];
+        const text = word.word.trim();
+
+        if (!text) {
+            continue;
+        }
+
+        const prev = tokens.at(-1);
+
+        if (prev && isPunctuationOnly(text)) {
+            prev.text += text;
+            prev.end = Math.max(prev.end, word.end ?? prev.end);
+            continue;
+        }
+
+        const start = word.start ?? prev?.end ?? segment.start;
+        const nextStart = words.slice(i + 1).find((w) => w.start !== undefined)?.start;
+        const end = word.end ?? Math.max(start, nextStart ?? segment.end);
+        const probability = word.probability ?? word.score;
+
+        tokens.push(
+            withSegmentMetadata(
+                { end, start, text, ...(probability !== undefined && { confidence: probability, probability }) },
+                segment,
+            ),
+        );
+    }
+
+    return tokens;
+};
+
+const mapSegment = (segment: WhisperSegmentJson, words?: WhisperWordJson[]): null | WhisperSegment => {
+    const text = segment.text.trim();
+    const tokens = words?.length
+        ? mapWordsToTokens(words, segment)
+        : estimateSegmentFromToken({ end: segment.end, start: segment.start, text })
+              .tokens.filter((t) => t.text)
+              .map((t) => withSegmentMetadata(t, segment));
+
+    if (tokens.length === 0) {
+        return null;
+    }
+
+    return {
+        end: segment.end,
+        start: segment.start,
+        text: text || tokens.map((t) => t.text).join(' '),
+        tokens,
+        ...(segment.avg_logprob !== undefined && { avgLogprob: segment.avg_logprob }),
+        ...(segment.no_speech_prob !== undefined && { noSpeechProb: segment.no_speech_prob }),
+    };
+};
+
+/**
+ * Converts a Whisper transcription into segments.
+ *
+ * Supports OpenAI Whisper `verbose_json` (with words either inside each segment or in the top-level `words` array),
+ * and the JSON written by faster-whisper and WhisperX. Word text is trimmed so that the leading space Whisper puts
+ * on each word does not break `normalizeWord`-based matching, punctuation-only words are attached to the preceding
+ * word, and words without timings are given the gap around them.
+ *
+ * Word `probability` (or the WhisperX `score`, both also exposed as `confidence`) and the segment
+ * `avg_logprob`/`no_speech_prob` are carried onto each token. Segments without word timings get evenly estimated tokens
+ * via `estimateSegmentFromToken`.
+ *
+ * @param {WhisperTranscriptionJson} transcription - The parsed Whisper JSON output
+ * @returns {WhisperSegment[]} Segments with word-level tokens
+ */
+export const parseWhisperTranscription = (transcription: WhisperTranscriptionJson): WhisperSegment[] => {
+    const { segments = [], words = [] } = transcription;
+
+    if (segments.length === 0) {
+        const first = words.find((w) => w.start !== undefined)?.start ?? 0;
+        const last = words.findLast((w) => w.end !== undefined)?.end ?? first;
+        const segment = mapSegment({ end: last, start: first, text: transcription.text ?? '' }, words);
+
+        return segment ? [segment] : [];
+    }
+
+    return segments
+        .map((segment) =>
+            mapSegment(
+                segment,
+                segment.words ??
+                    words.filter((w) => w.start !== undefined && w.start >= segment.start && w.start < segment.end),
+            ),
+        )
+        .filter((segment): segment is WhisperSegment => segment !== null);
+};
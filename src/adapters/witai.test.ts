@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'bun:test';
+
+import { parseWitAiResponse, type WitAiResponseJson } from './witai';
+
+describe('witai', () => {
+    describe('parseWitAiResponse', () => {
+        it('should parse a streamed body, drop partials and convert milliseconds to seconds', () => {
+            const body = [
+                '{',
+                '  "text": "hello",',
+                '  "type": "PARTIAL_TRANSCRIPTION",',
+                '  "speech": { "tokens": [{ "start": 0, "end": 500, "token": "hello" }] }',
+                '}',
+                '{',
+                '  "is_final": true,',
+                '  "text": "hello {world}",',
+                '  "type": "FINAL_TRANSCRIPTION",',
+                '  "speech": {',
+                '    "confidence": 0.9,',
+                '    "tokens": [',
+                '      { "confidence": 0.95, "start": 0, "end": 500, "token": "hello" },',
+                '      { "confidence": 0.85, "start": 500, "end": 1250, "token": "world" }',
+                '    ]',
+                '  }',
+                '}',
+            ].join('\r\n');
+
+            expect(parseWitAiResponse(body)).toEqual([
+                {
+                    end: 1.25,
+                    start: 0,
+                    text: 'hello world',
+                    tokens: [
+                        { confidence: 0.95, end: 0.5, start: 0, text: 'hello' },
+                        { confidence: 0.85, end: 1.25, start: 0.5, text: 'world' },
+                    ],
+                },
+            ]);
+        });
+
+        it('should de-duplicate tokens that overlap the previous final chunk', () => {
+            const chunks: WitAiResponseJson[] = [
+                {
+                    is_final: true,
+                    speech: {
+                        tokens: [
+                            { end: 400, start: 0, token: 'one' },
+                            { end: 900, start: 400, token: 'two' },
+                        ],
+                    },
+                },
+                {
+                    speech: { tokens: [{ end: 1400, start: 900, token: 'three' }] },
+                    type: 'FINAL_UNDERSTANDING',
+                },
+                {
+                    is_final: true,
+                    speech: {
+                        tokens: [
+                            { end: 1420, start: 880, token: 'three' },
+                            { end: 2000, start: 1500, token: 'four' },
+                        ],
+                    },
+                },
+            ];
+
+            expect(parseWitAiResponse(chunks).map((s) => s.text)).toEqual(['one two', 'three', 'four']);
+        });
+
+        it('should skip final chunks without tokens', () => {
+            expect(parseWitAiResponse([{ is_final: true, text: 'no timings' }])).toEqual([]);
+        });
+
+        it('should return an empty array for an empty body', () => {
+            expect(parseWitAiResponse('')).toEqual([]);
+        });
+    });
+});
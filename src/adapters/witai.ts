@@ -0,0 +1,130 @@
+import type { Segment, Token } from '@/types';
+
+/**
+ * A token of a wit.ai speech response. Timings are in milliseconds.
+ */
+export type WitAiTokenJson = {
+    confidence?: number;
+    end: number;
+    start: number;
+    token: string;
+};
+
+/**
+ * One JSON object of a wit.ai `/speech` or `/dictation` response stream.
+ */
+export type WitAiResponseJson = {
+    is_final?: boolean;
+    speech?: {
+        confidence?: number;
+        tokens?: WitAiTokenJson[];
+    };
+    text?: string;
+    type?: string;
+};
+
+/**
+ * A token carrying the confidence reported by wit.ai.
+ */
+export type WitAiToken = Token & {
+    /** Confidence of the token between 0 and 1 */
+    confidence?: number;
+};
+
+/**
+ * A segment built from one final wit.ai transcription.
+ */
+export type WitAiSegment = Segment & {
+    tokens: WitAiToken[];
+};
+
+type ScanState = {
+    depth: number;
+    escaped: boolean;
+    inString: boolean;
+};
+
+/**
+ * Advances the scanner past one character inside a JSON string literal.
+ */
+const scanStringChar = (state: ScanState, char: string) => {
+    if (state.escaped) {
+        state.escaped = false;
+    } else if (char === '\\') {
+        state.escaped = true;
+    } else if (char === '"') {
+        state.inString = false;
+    }
+};
+
+/**
+ * Splits a streamed wit.ai body, which is a sequence of concatenated (pretty-printed) JSON objects rather than
+ * a JSON array, into its individual objects.
+ */
+const splitJsonObjects = (body: string): WitAiResponseJson[] => {
+    const objects: WitAiResponseJson[] = [];
+    const state: ScanState = { depth: 0, escaped: false, inString: false };
+    let start = -1;
+
+    for (let i = 0; i < body.length; i++) {
+        const char = body[i];
+
+        if (state.inString) {
+            scanStringChar(state, char);
+        } else if (char === '"') {
+            state.inString = true;
+        } else if (char === '{') {
+            start = state.depth === 0 ? i : start;
+            state.depth++;
+        } else if (char === '}' && state.depth > 0 && --state.depth === 0) {
+            objects.push(JSON.parse(body.slice(start, i + 1)) as WitAiResponseJson);
+        }
+    }
+
+    return objects;
+};
+
+const isFinalTranscription = (chunk: WitAiResponseJson) =>
+    chunk.is_final === true || chunk.type === 'FINAL_TRANSCRIPTION' || chunk.type === 'FINAL_UNDERSTANDING';
+
+/**
+ * Converts a wit.ai speech response into segments, one per final transcription.
+ *
+ * Accepts either the raw streamed body (concatenated JSON objects) or the already parsed objects. Partial
+ * transcriptions are dropped, token timings are converted from milliseconds to seconds, and tokens of a final
+ * chunk that were already covered by the previous final chunk (their midpoint falls before the end of the last
+ * emitted token) are discarded, so repeated final/understanding chunks do not duplicate words.
+ *
+ * @param {string | WitAiResponseJson[]} response - The streamed response body or its parsed chunks
+ * @returns {WitAiSegment[]} Segments with word-level tokens in seconds
+ */
+export const parseWitAiResponse = (response: string | WitAiResponseJson[]): WitAiSegment[] => {
+    const chunks = typeof response === 'string' ? splitJsonObjects(response) : response;
+    const segments: WitAiSegment[] = [];
+    let lastEnd = Number.NEGATIVE_INFINITY;
+
+    for (const chunk of chunks.filter(isFinalTranscription)) {
+        const tokens: WitAiToken[] = (chunk.speech?.tokens ?? [])
+            .map(({ confidence, end, start, token }) => ({
+                end: end / 1000,
+                start: start / 1000,
+                text: token.trim(),
+                ...(confidence !== undefined && { confidence }),
+            }))
+            .filter((token) => token.text && (token.start + token.end) / 2 >= lastEnd);
+
+        if (tokens.length === 0) {
+            continue;
+        }
+
+        lastEnd = tokens.at(-1)!.end;
+        segments.push({
+            end: lastEnd,
+            start: tokens[0].start,
+            text: tokens.map((t) => t.text).join(' '),
+            tokens,
+        });
+    }
+
+    return segments;
+};
@@ -1,4 +1,24 @@
+export * from './adapters/assemblyai';
+export * from './adapters/aws';
+export * from './adapters/azure';
+export type { AsrSegment, AsrToken } from './adapters/common';
+export * from './adapters/deepgram';
+export * from './adapters/google';
+export * from './adapters/whisper';
+export * from './adapters/witai';
+export * from './subtitles';
 export * from './transcript';
 export * from './types';
+export * from './utils/constants';
+export { computeGapThreshold, getPauses } from './utils/gaps';
+export {
+    deserializeHints,
+    HINTS_FORMAT_VERSION,
+    HINTS_JSON_SCHEMA,
+    serializeHints,
+} from './utils/hintSerialization';
 export { generateHintsFromSegments, generateHintsFromTokens } from './utils/hints';
+export { estimateSyllableCount, interpolateWordTimings } from './utils/interpolation';
+export * from './utils/markers';
+export { DEFAULT_LINE_END_STOP_WORDS, wrapTokensIntoLines } from './utils/subtitleLayout';
 export * from './utils/textUtils';
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'bun:test';
+
+import { parseSrt, parseWebVtt } from './subtitles';
+import { formatSegmentsToWebVtt, markAndCombineSegments } from './transcript';
+
+describe('subtitles', () => {
+    describe('parseSrt', () => {
+        it('should parse cues into segments with estimated word tokens', () => {
+            const srt = [
+                '1',
+                '00:00:00,000 --> 00:00:02,000',
+                'Hello world.',
+                '',
+                '2',
+                '00:00:03,500 --> 00:00:05,500',
+                '<i>How are</i>',
+                'you?',
+                '',
+            ].join('\r\n');
+
+            expect(parseSrt(srt)).toEqual([
+                {
+                    end: 2,
+                    start: 0,
+                    text: 'Hello world.',
+                    tokens: [
+                        { end: 1, start: 0, text: 'Hello' },
+                        { end: 2, start: 1, text: 'world.' },
+                    ],
+                },
+                {
+                    end: 5.5,
+                    start: 3.5,
+                    text: 'How are you?',
+                    tokens: [
+                        { end: 3.5 + 2 / 3, start: 3.5, text: 'How' },
+                        { end: 3.5 + 4 / 3, start: 3.5 + 2 / 3, text: 'are' },
+                        { end: 5.5, start: 3.5 + 4 / 3, text: 'you?' },
+                    ],
+                },
+            ]);
+        });
+
+        it('should handle hours, a BOM, missing sequence numbers and positioning tags', () => {
+            const srt = '\uFEFF01:02:03,250 --> 01:02:04,250\n{\\an8}Top';
+
+            expect(parseSrt(srt)).toEqual([
+                { end: 3724.25, start: 3723.25, text: 'Top', tokens: [{ end: 3724.25, start: 3723.25, text: 'Top' }] },
+            ]);
+        });
+
+        it('should skip malformed and empty cues', () => {
+            const srt = ['1', 'not a timing line', 'Text', '', '2', '00:00:01,000 --> 00:00:02,000', '<b></b>'].join(
+                '\n',
+            );
+
+            expect(parseSrt(srt)).toEqual([]);
+        });
+
+        it('should produce segments that run through markAndCombineSegments', () => {
+            const srt = [
+                '1',
+                '00:00:00,000 --> 00:00:02,000',
+                'The quick brown fox.',
+                '',
+                '2',
+                '00:00:06,000 --> 00:00:08,000',
+                'Jumps over the dog.',
+            ].join('\n');
+
+            const combined = markAndCombineSegments(parseSrt(srt), {
+                gapThreshold: 2,
+                maxSecondsPerSegment: 1,
+                minWordsPerSegment: 1,
+            });
+
+            expect(combined.map((s) => [s.start, s.end])).toEqual([
+                [0, 2],
+                [6, 8],
+            ]);
+        });
+    });
+
+    describe('parseWebVtt', () => {
+        it('should skip the header, notes, styles, identifiers and cue settings', () => {
+            const vtt = [
+                'WEBVTT - Lecture',
+                '',
+                'NOTE This is a comment',
+                '',
+                'STYLE',
+                '::cue { color: yellow }',
+                '',
+                'intro',
+                '00:01.000 --> 00:03.000 line:-1 align:center',
+                '<v Speaker>Fish &amp; chips</v>',
+            ].join('\n');
+
+            expect(parseWebVtt(vtt)).toEqual([
+                {
+                    end: 3,
+                    start: 1,
+                    text: 'Fish & chips',
+                    tokens: [
+                        { end: 1 + 2 / 3, start: 1, text: 'Fish' },
+                        { end: 1 + 4 / 3, start: 1 + 2 / 3, text: '&' },
+                        { end: 3, start: 1 + 4 / 3, text: 'chips' },
+                    ],
+                },
+            ]);
+        });
+
+        it('should honor inline word timestamps', () => {
+            const vtt = [
+                'WEBVTT',
+                '',
+                '00:00:00.000 --> 00:00:04.000',
+                'The <00:00:01.000><c>quick</c> brown <00:00:03.000>fox',
+            ].join('\n');
+
+            expect(parseWebVtt(vtt)).toEqual([
+                {
+                    end: 4,
+                    start: 0,
+                    text: 'The quick brown fox',
+                    tokens: [
+                        { end: 1, start: 0, text: 'The' },
+                        { end: 2, start: 1, text: 'quick' },
+                        { end: 3, start: 2, text: 'brown' },
+                        { end: 4, start: 3, text: 'fox' },
+                    ],
+                },
+            ]);
+        });
+
+        it('should round-trip the word timings written by formatSegmentsToWebVtt', () => {
+            const tokens = [
+                { end: 0.5, start: 0, text: 'One' },
+                { end: 1.25, start: 0.5, text: 'two' },
+                { end: 3, start: 1.25, text: 'three.' },
+            ];
+
+            const vtt = formatSegmentsToWebVtt([{ end: 3, start: 0, tokens }], {
+                maxSecondsPerLine: 10,
+                wordTimestamps: true,
+            });
+
+            expect(parseWebVtt(vtt)).toEqual([{ end: 3, start: 0, text: 'One two three.', tokens }]);
+        });
+    });
+});
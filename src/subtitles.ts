@@ -0,0 +1,156 @@
+import { estimateSegmentFromToken } from './transcript';
+import type { Segment, Token } from './types';
+
+type ParsedCue = {
+    end: number;
+    start: number;
+    text: string;
+};
+
+const TIMING_PATTERN = /^((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+const INLINE_TIMESTAMP_PATTERN = /<((?:\d+:)?\d{1,2}:\d{2}\.\d{3})>/g;
+
+/**
+ * Parses an `HH:MM:SS,mmm`, `HH:MM:SS.mmm` or `MM:SS.mmm` timestamp into seconds.
+ */
+const parseTimestampToSeconds = (timestamp: string): number => {
+    const [clock, fraction = '0'] = timestamp.split(/[.,]/);
+    const parts = clock.split(':').map(Number);
+    const [hrs, mins, secs] = parts.length === 3 ? parts : [0, ...parts];
+
+    return hrs * 3600 + mins * 60 + secs + Number(fraction.padEnd(3, '0')) / 1000;
+};
+
+const decodeEntities = (text: string) =>
+    text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lrm;|&rlm;/g, '')
+        .replace(/&amp;/g, '&');
+
+/**
+ * Removes markup (e.g. `<i>`, `<v Speaker>`, `{\an8}`), decodes entities and collapses whitespace.
+ */
+const cleanCueText = (text: string) =>
+    decodeEntities(text.replace(/<[^>]*>/g, '').replace(/\{\\[^}]*\}/g, ''))
+        .replace(/\s+/g, ' ')
+        .trim();
+
+const splitIntoBlocks = (text: string) =>
+    text
+        .replace(/^\uFEFF/, '')
+        .replace(/\r\n?/g, '\n')
+        .split(/\n{2,}/)
+        .map((block) => block.split('\n').filter((line) => line.trim()))
+        .filter((lines) => lines.length > 0);
+
+const parseCueBlock = (lines: string[]): null | ParsedCue => {
+    const timingIndex = lines.findIndex((line) => TIMING_PATTERN.test(line.trim()));
+
+    if (timingIndex === -1) {
+        return null;
+    }
+
+    const [, start, end] = lines[timingIndex].trim().match(TIMING_PATTERN)!;
+
+    return {
+        end: parseTimestampToSeconds(end),
+        start: parseTimestampToSeconds(start),
+        text: lines.slice(timingIndex + 1).join('\n'),
+    };
+};
+
+/**
+ * Builds word tokens from cue text, estimating per-word timings evenly across the cue.
+ */
+const toEstimatedSegment = ({ end, start, text }: ParsedCue): null | Segment => {
+    const cleaned = cleanCueText(text);
+    return cleaned ? estimateSegmentFromToken({ end, start, text: cleaned }) : null;
+};
+
+/**
+ * Builds word tokens from cue text containing inline `<HH:MM:SS.mmm>` timestamps.
+ * Each timestamp starts a new run of words which lasts until the next timestamp (or the end of the cue);
+ * runs of several words are divided evenly.
+ */
+const toTimedSegment = ({ end, start, text }: ParsedCue): null | Segment => {
+    const runs: Token[] = [];
+    let runStart = start;
+    let lastIndex = 0;
+
+    const pushRun = (runText: string, runEnd: number) => {
+        const cleaned = cleanCueText(runText);
+        if (cleaned) {
+            runs.push({ end: Math.max(runStart, runEnd), start: runStart, text: cleaned });
+        }
+    };
+
+    for (const match of text.matchAll(INLINE_TIMESTAMP_PATTERN)) {
+        const timestamp = Math.min(Math.max(parseTimestampToSeconds(match[1]), runStart), end);
+        pushRun(text.slice(lastIndex, match.index), timestamp);
+        runStart = timestamp;
+        lastIndex = match.index! + match[0].length;
+    }
+
+    pushRun(text.slice(lastIndex), end);
+
+    if (runs.length === 0) {
+        return null;
+    }
+
+    return {
+        end,
+        start,
+        text: runs.map((run) => run.text).join(' '),
+        tokens: runs.flatMap((run) => estimateSegmentFromToken(run).tokens),
+    };
+};
+
+/**
+ * Parses a SubRip (SRT) document into segments, one per cue.
+ *
+ * SRT files carry no word-level timing, so the words of each cue are given evenly distributed timings
+ * via `estimateSegmentFromToken`. Formatting tags such as `<i>` and `{\an8}` are stripped, and multi-line
+ * cues are joined into a single line. Blocks without a valid timing line are ignored.
+ *
+ * @param {string} srt - The SRT document text
+ * @returns {Segment[]} The cues as segments with estimated word tokens
+ *
+ * @example
+ * ```ts
+ * parseSrt('1\n00:00:00,000 --> 00:00:02,000\nHello world.');
+ * // → [{ start: 0, end: 2, text: 'Hello world.', tokens: [{ start: 0, end: 1, text: 'Hello' }, { start: 1, end: 2, text: 'world.' }] }]
+ * ```
+ */
+export const parseSrt = (srt: string): Segment[] => {
+    return splitIntoBlocks(srt)
+        .map(parseCueBlock)
+        .map((cue) => cue && toEstimatedSegment(cue))
+        .filter((segment): segment is Segment => segment !== null);
+};
+
+/**
+ * Parses a WebVTT document into segments, one per cue.
+ *
+ * The header, `NOTE`, `STYLE` and `REGION` blocks are skipped, as are cue identifiers and cue settings.
+ * When a cue contains inline `<HH:MM:SS.mmm>` word timestamps (as produced by `formatSegmentsToWebVtt` with
+ * `wordTimestamps`), they are used as the word start times; otherwise word timings are estimated evenly
+ * via `estimateSegmentFromToken`. Voice, class and formatting tags are stripped and HTML entities decoded.
+ *
+ * @param {string} vtt - The WebVTT document text
+ * @returns {Segment[]} The cues as segments with word tokens
+ */
+export const parseWebVtt = (vtt: string): Segment[] => {
+    return splitIntoBlocks(vtt)
+        .filter(([first]) => !/^(WEBVTT|NOTE|STYLE|REGION)(\s|$)/.test(first))
+        .map(parseCueBlock)
+        .map((cue) => {
+            if (!cue) {
+                return null;
+            }
+
+            return cue.text.match(INLINE_TIMESTAMP_PATTERN) ? toTimedSegment(cue) : toEstimatedSegment(cue);
+        })
+        .filter((segment): segment is Segment => segment !== null);
+};
@@ -1,12 +1,18 @@
 import { beforeEach, describe, expect, it } from 'bun:test';
 import {
+    alignSegmentsWithGroundTruth,
     applyGroundTruthToSegment,
     cleanupIsolatedTokens,
     estimateSegmentFromToken,
+    formatSegmentsToSrt,
     formatSegmentsToTimestampedTranscript,
+    formatSegmentsToWebVtt,
     getFirstMatchingToken,
     getFirstTokenForSelection,
+    getHintMatchReport,
+    getLowConfidenceSpans,
     groupMarkedTokensIntoSegments,
+    groupMarkedTokensIntoSegmentsOptimally,
     mapSegmentsIntoFormattedSegments,
     markAndCombineSegments,
     markTokensWithDividers,
@@ -15,8 +21,9 @@ import {
     splitSegment,
     updateSegmentWithGroundTruth,
 } from './transcript';
-import type { MarkAndCombineSegmentsOptions, MarkedSegment, MarkedToken, Segment, Token } from './types';
+import type { BreakTrace, MarkAndCombineSegmentsOptions, MarkedSegment, MarkedToken, Segment, Token } from './types';
 import { ALWAYS_BREAK, SEGMENT_BREAK } from './utils/constants';
+import { isBreakMarker, toLegacyBreakMarker } from './utils/markers';
 import { createHints } from './utils/textUtils';
 
 function roundTokenTimes(tokens: Token[]): Token[] {
@@ -54,6 +61,18 @@ describe('transcript', () => {
                 ],
             });
         });
+
+        it('should give longer words more time when interpolating by characters', () => {
+            const actual = estimateSegmentFromToken(
+                { end: 6, start: 0, text: 'a chapter' },
+                { interpolation: 'characters' },
+            );
+
+            expect(actual.tokens).toEqual([
+                { end: 0.75, start: 0, text: 'a' },
+                { end: 6, start: 0.75, text: 'chapter' },
+            ]);
+        });
     });
 
     describe('markTokensWithDividers', () => {
@@ -253,6 +272,314 @@ describe('transcript', () => {
                 { end: 5, start: 4, text: 'ثم' },
             ]);
         });
+
+        it('should isolate low-confidence runs with soft breaks when minConfidence is set', () => {
+            const tokens: Token[] = [
+                { confidence: 0.9, end: 1, start: 0, text: 'clear' },
+                { confidence: 0.2, end: 2, start: 1, text: 'garbled' },
+                { confidence: 0.1, end: 3, start: 2, text: 'stretch' },
+                { end: 4, start: 3, text: 'clear' },
+            ];
+
+            expect(markTokensWithDividers(tokens, { gapThreshold: 5, minConfidence: 0.5 })).toEqual([
+                tokens[0],
+                SEGMENT_BREAK,
+                tokens[1],
+                tokens[2],
+                SEGMENT_BREAK,
+                tokens[3],
+            ]);
+
+            expect(markTokensWithDividers(tokens, { gapThreshold: 5 })).toEqual(tokens);
+        });
+
+        it('should not force a hint break when a matched token has low confidence', () => {
+            const tokens: Token[] = [
+                { end: 1, start: 0, text: 'intro' },
+                { confidence: 0.9, end: 2, start: 1, text: 'next' },
+                { confidence: 0.3, end: 3, start: 2, text: 'topic' },
+                { confidence: 0.9, end: 4, start: 3, text: 'next' },
+                { confidence: 0.8, end: 5, start: 4, text: 'topic' },
+            ];
+
+            const actual = markTokensWithDividers(tokens, {
+                gapThreshold: 5,
+                hints: createHints('next topic'),
+                minConfidence: 0.5,
+            });
+
+            expect(actual.filter((t) => t === ALWAYS_BREAK)).toHaveLength(1);
+            expect(actual.slice(actual.indexOf(ALWAYS_BREAK))).toEqual([
+                ALWAYS_BREAK,
+                SEGMENT_BREAK,
+                tokens[3],
+                tokens[4],
+            ]);
+        });
+
+        it('should derive the gap threshold from the pauses when adaptiveGapThreshold is set', () => {
+            const starts = [0, 0.4, 0.8, 2, 2.4, 2.8, 4, 4.4, 4.8, 6];
+            const tokens: Token[] = starts.map((start, i) => ({ end: start + 0.3, start, text: `w${i}` }));
+
+            const fixed = markTokensWithDividers(tokens, { gapThreshold: 1.5 });
+            const adaptive = markTokensWithDividers(tokens, {
+                adaptiveGapThreshold: { method: 'cluster' },
+                gapThreshold: 1.5,
+            });
+
+            expect(fixed).toEqual(tokens);
+            expect(adaptive.filter((t) => t === SEGMENT_BREAK)).toHaveLength(3);
+            expect(adaptive.indexOf(SEGMENT_BREAK)).toBe(3);
+        });
+
+        it('should record the reason of every break in the trace', () => {
+            const tokens: Token[] = [
+                { end: 1, speaker: 'A', start: 0, text: 'Welcome' },
+                { end: 2, speaker: 'B', start: 1, text: 'next' },
+                { end: 3, speaker: 'B', start: 2, text: 'topic' },
+                { end: 4, speaker: 'B', start: 3, text: 'next' },
+                { end: 5, speaker: 'B', start: 4, text: 'topic' },
+            ];
+            const trace: BreakTrace = [];
+
+            markTokensWithDividers(tokens, { gapThreshold: 5, hints: createHints('next topic'), trace });
+
+            expect(trace.map(({ detail, marker, reason }) => ({ detail, marker, reason }))).toEqual([
+                { detail: 'A → B', marker: ALWAYS_BREAK, reason: 'speaker' },
+                { detail: 'next topic', marker: ALWAYS_BREAK, reason: 'hint' },
+            ]);
+            expect(trace[1].previous).toBe(tokens[2]);
+            expect(trace[1].next).toBe(tokens[3]);
+        });
+
+        it('should insert a hard break whenever the speaker changes', () => {
+            const tokens: Token[] = [
+                { end: 1, speaker: 'Lecturer', start: 0, text: 'Any' },
+                { end: 2, speaker: 'Lecturer', start: 1, text: 'questions' },
+                { end: 3, speaker: 'Student', start: 2, text: 'Yes' },
+                { end: 4, speaker: 'Lecturer', start: 3, text: 'Go' },
+            ];
+
+            expect(markTokensWithDividers(tokens, { gapThreshold: 5 })).toEqual([
+                tokens[0],
+                tokens[1],
+                ALWAYS_BREAK,
+                tokens[2],
+                ALWAYS_BREAK,
+                tokens[3],
+            ]);
+        });
+
+        it('should not treat a missing speaker label as a speaker change', () => {
+            const tokens: Token[] = [
+                { end: 1, speaker: 'Lecturer', start: 0, text: 'Any' },
+                { end: 2, start: 1, text: 'more' },
+                { end: 3, speaker: 'Lecturer', start: 2, text: 'questions' },
+                { end: 4, start: 3, text: 'Yes' },
+                { end: 5, speaker: 'Student', start: 4, text: 'please' },
+            ];
+
+            expect(markTokensWithDividers(tokens, { gapThreshold: 5 })).toEqual([
+                ...tokens.slice(0, 4),
+                ALWAYS_BREAK,
+                tokens[4],
+            ]);
+        });
+
+        it('should insert a hard break after a break-after hint phrase', () => {
+            const tokens: Token[] = [
+                { end: 1, start: 0, text: 'والله' },
+                { end: 2, start: 1, text: 'أعلم' },
+                { end: 3, start: 2, text: 'السؤال' },
+                { end: 4, start: 3, text: 'التالي' },
+            ];
+            const hints = createHints({ phrase: 'والله أعلم', position: 'after' });
+            const trace: BreakTrace = [];
+
+            expect(markTokensWithDividers(tokens, { gapThreshold: 5, hints, trace })).toEqual([
+                tokens[0],
+                tokens[1],
+                ALWAYS_BREAK,
+                tokens[2],
+                tokens[3],
+            ]);
+            expect(trace).toEqual([
+                { detail: 'والله أعلم', marker: ALWAYS_BREAK, next: tokens[2], previous: tokens[1], reason: 'hint' },
+            ]);
+        });
+
+        it('should not break after a break-after hint phrase recognized with low confidence', () => {
+            const tokens: Token[] = [
+                { end: 1, start: 0, text: 'that' },
+                { end: 2, start: 1, text: 'is' },
+                { confidence: 0.2, end: 3, start: 2, text: 'all' },
+                { end: 4, start: 3, text: 'folks' },
+            ];
+            const hints = createHints({ phrase: 'that is all', position: 'after' });
+
+            expect(markTokensWithDividers(tokens, { gapThreshold: 5, hints, minConfidence: 0.5 })).not.toContain(
+                ALWAYS_BREAK,
+            );
+        });
+
+        it('should force a break before a hint phrase mangled by the ASR when the hints are tolerant', () => {
+            const tokens: Token[] = [
+                { end: 1, start: 0, text: 'انتهينا' },
+                { end: 2, start: 1, text: 'سؤال' },
+                { end: 3, start: 2, text: 'امم' },
+                { end: 4, start: 3, text: 'التالي' },
+            ];
+            const hints = createHints({ tolerance: { arabicVariants: true, maxInsertedTokens: 1 } }, 'السؤال التالي');
+
+            expect(markTokensWithDividers(tokens, { gapThreshold: 5, hints })).toEqual([
+                tokens[0],
+                ALWAYS_BREAK,
+                ...tokens.slice(1),
+            ]);
+        });
+
+        it('should insert a soft break before a soft hint phrase', () => {
+            const tokens: Token[] = [
+                { end: 1, start: 0, text: 'fine' },
+                { end: 6, start: 5, text: 'on' },
+                { end: 7, start: 6, text: 'the' },
+                { end: 8, start: 7, text: 'other' },
+                { end: 9, start: 8, text: 'hand' },
+            ];
+            const hints = createHints({ phrase: 'on the other hand', type: 'soft', weight: 0.3 });
+
+            expect(markTokensWithDividers(tokens, { gapThreshold: 5, hints, structuredMarkers: true })).toEqual([
+                tokens[0],
+                { kind: 'paragraph', metadata: { detail: 'on the other hand' }, source: 'hint', strength: 'soft' },
+                ...tokens.slice(1),
+            ]);
+        });
+
+        it('should only break at a light soft hint after a long enough pause', () => {
+            const tokens: Token[] = [
+                { end: 1, start: 0, text: 'a' },
+                { end: 2, start: 1, text: 'b' },
+                { end: 4, start: 3, text: 'so' },
+                { end: 5, start: 4, text: 'c' },
+            ];
+            const mark = (weight: number) =>
+                markTokensWithDividers(tokens, {
+                    gapThreshold: 5,
+                    hints: createHints({ phrase: 'so', type: 'soft', weight }),
+                });
+
+            expect(mark(1)).toEqual([tokens[0], tokens[1], SEGMENT_BREAK, tokens[2], tokens[3]]);
+            expect(mark(0.8)).toEqual([tokens[0], tokens[1], SEGMENT_BREAK, tokens[2], tokens[3]]);
+            expect(mark(0.7)).toEqual(tokens);
+            expect(mark(0.01)).toEqual(tokens);
+        });
+
+        it('should move soft breaks that would split a protected phrase after it', () => {
+            const tokens: Token[] = [
+                { end: 1, start: 0, text: 'محمد' },
+                { end: 2, start: 1, text: 'صلى' },
+                { end: 3, start: 2, text: 'الله.' },
+                { end: 6, start: 5, text: 'عليه' },
+                { end: 7, start: 6, text: 'وسلم' },
+                { end: 8, start: 7, text: 'قال' },
+            ];
+            const hints = createHints({ phrase: 'صلى الله عليه وسلم', type: 'protect' });
+            const trace: BreakTrace = [];
+
+            expect(markTokensWithDividers(tokens, { gapThreshold: 1.5, hints, trace })).toEqual([
+                ...tokens.slice(0, 5),
+                SEGMENT_BREAK,
+                tokens[5],
+            ]);
+            expect(trace).toEqual([
+                {
+                    detail: '., moved after a protected phrase',
+                    marker: SEGMENT_BREAK,
+                    next: tokens[5],
+                    previous: tokens[4],
+                    reason: 'punctuation',
+                },
+            ]);
+        });
+
+        it('should not split a protected phrase at a filler inside it', () => {
+            const tokens: Token[] = [
+                { end: 1, start: 0, text: 'salla' },
+                { end: 2, start: 1, text: 'allahu' },
+                { end: 3, start: 2, text: 'um' },
+                { end: 4, start: 3, text: 'alayhi' },
+                { end: 5, start: 4, text: 'wasallam' },
+                { end: 6, start: 5, text: 'next' },
+            ];
+            const hints = createHints(
+                { tolerance: { maxInsertedTokens: 1 } },
+                { phrase: 'salla allahu alayhi wasallam', type: 'protect' },
+            );
+
+            expect(markTokensWithDividers(tokens, { fillers: ['um'], gapThreshold: 5, hints })).toEqual([
+                tokens[0],
+                tokens[1],
+                tokens[3],
+                tokens[4],
+                SEGMENT_BREAK,
+                tokens[5],
+            ]);
+        });
+
+        it('should keep a deferred break when a hard break follows inside the protected phrase', () => {
+            const tokens: Token[] = [
+                { end: 1, speaker: 'A', start: 0, text: 'peace.' },
+                { end: 2, speaker: 'A', start: 1, text: 'be' },
+                { end: 3, speaker: 'B', start: 2, text: 'upon' },
+                { end: 4, speaker: 'B', start: 3, text: 'him' },
+                { end: 5, speaker: 'B', start: 4, text: 'Next' },
+            ];
+            const hints = createHints({ phrase: 'peace be upon him', type: 'protect' });
+
+            expect(markTokensWithDividers(tokens, { gapThreshold: 5, hints })).toEqual([
+                tokens[0],
+                tokens[1],
+                ALWAYS_BREAK,
+                tokens[2],
+                tokens[3],
+                SEGMENT_BREAK,
+                tokens[4],
+            ]);
+        });
+
+        it('should keep a break at the end of a protected phrase', () => {
+            const tokens: Token[] = [
+                { end: 1, start: 0, text: 'peace' },
+                { end: 2, start: 1, text: 'be' },
+                { end: 3, start: 2, text: 'upon' },
+                { end: 4, start: 3, text: 'him.' },
+                { end: 5, start: 4, text: 'Next' },
+            ];
+            const hints = createHints({ phrase: 'peace be upon him', type: 'protect' });
+
+            expect(markTokensWithDividers(tokens, { gapThreshold: 2, hints })).toEqual([
+                ...tokens.slice(0, 4),
+                SEGMENT_BREAK,
+                tokens[4],
+            ]);
+        });
+
+        it('should insert structured markers describing each break when requested', () => {
+            const tokens: Token[] = [
+                { end: 1, speaker: 'A', start: 0, text: 'Hello.' },
+                { end: 2, speaker: 'B', start: 1, text: 'Hi' },
+                { end: 5, speaker: 'B', start: 4, text: 'there' },
+            ];
+
+            expect(markTokensWithDividers(tokens, { gapThreshold: 1, structuredMarkers: true })).toEqual([
+                tokens[0],
+                { kind: 'sentence', metadata: { detail: '.' }, source: 'punctuation', strength: 'soft' },
+                { kind: 'speaker', metadata: { detail: 'A → B' }, source: 'speaker', strength: 'hard' },
+                tokens[1],
+                { kind: 'segment', metadata: { detail: 'gap of 2.00s' }, source: 'gap', strength: 'soft' },
+                tokens[2],
+            ]);
+        });
     });
 
     describe('groupMarkedTokensIntoSegments', () => {
@@ -314,6 +641,178 @@ describe('transcript', () => {
             const actual = groupMarkedTokensIntoSegments([SEGMENT_BREAK, SEGMENT_BREAK] as MarkedToken[], 10);
             expect(actual).toEqual([]);
         });
+
+        it('should treat structured markers like the string constants of the same strength', () => {
+            const chapter: MarkedToken = { kind: 'chapter', source: 'chapters.json', strength: 'hard' };
+            const sentence: MarkedToken = { kind: 'sentence', strength: 'soft' };
+            const input: MarkedToken[] = [
+                { end: 1, start: 0, text: 'Intro' },
+                sentence,
+                chapter,
+                { end: 3, start: 2, text: 'Part' },
+                { end: 7.5, start: 6.5, text: 'one' },
+                sentence,
+                { end: 9, start: 8, text: 'continues' },
+            ];
+
+            expect(groupMarkedTokensIntoSegments(input, 5)).toEqual([
+                { end: 1, start: 0, tokens: [input[0], sentence] },
+                { end: 7.5, start: 2, tokens: [chapter, input[3], input[4]] },
+                { end: 9, start: 8, tokens: [sentence, input[6]] },
+            ]);
+        });
+
+        it('should flag the breaks it drops for lack of words after them in the trace', () => {
+            const input: MarkedToken[] = [
+                { end: 1, start: 0, text: 'One' },
+                ALWAYS_BREAK,
+                ALWAYS_BREAK,
+                { end: 2, start: 1, text: 'two' },
+                ALWAYS_BREAK,
+            ];
+            const trace: BreakTrace = [
+                { marker: ALWAYS_BREAK, reason: 'hint' },
+                { marker: ALWAYS_BREAK, reason: 'speaker' },
+                { marker: ALWAYS_BREAK, reason: 'speaker' },
+            ];
+
+            groupMarkedTokensIntoSegments(input, 10, trace);
+
+            expect(trace.map(({ removed, segmentBoundary }) => ({ removed, segmentBoundary }))).toEqual([
+                { removed: 'empty-segment', segmentBoundary: undefined },
+                { removed: undefined, segmentBoundary: 'always-break' },
+                { removed: 'empty-segment', segmentBoundary: undefined },
+            ]);
+        });
+    });
+
+    describe('groupMarkedTokensIntoSegmentsOptimally', () => {
+        const toMarkedTokens = (text: string, start = 0): MarkedToken[] =>
+            text.split(' ').flatMap((word, i) => {
+                const token = { end: start + i + 1, start: start + i, text: word };
+                return word.endsWith('.') ? [token, SEGMENT_BREAK] : [token];
+            });
+
+        it('should balance the segments instead of running over the maximum duration', () => {
+            const markedTokens = toMarkedTokens('One two three four five. Six seven eight nine ten. Eleven twelve.');
+
+            const greedy = groupMarkedTokensIntoSegments(markedTokens, 10);
+            const optimal = groupMarkedTokensIntoSegmentsOptimally(markedTokens, {
+                maxSecondsPerSegment: 10,
+                minWordsPerSegment: 3,
+            });
+
+            expect(greedy.map(({ end, start }) => [start, end])).toEqual([[0, 12]]);
+            expect(optimal.map(({ end, start }) => [start, end])).toEqual([
+                [0, 5],
+                [5, 12],
+            ]);
+            expect(optimal[1].tokens[0]).toBe(SEGMENT_BREAK);
+            expect(optimal.flatMap((segment) => segment.tokens)).toEqual(markedTokens);
+        });
+
+        it('should prefer boundaries before a hint phrase', () => {
+            const markedTokens: MarkedToken[] = [
+                ...toMarkedTokens('a b c d e f g h'),
+                SEGMENT_BREAK,
+                ...toMarkedTokens('i j k l m n o p', 8),
+            ];
+            markedTokens.splice(7, 0, SEGMENT_BREAK);
+
+            const options = { maxSecondsPerSegment: 10, minWordsPerSegment: 1 };
+            const withoutHints = groupMarkedTokensIntoSegmentsOptimally(markedTokens, options);
+            const withHints = groupMarkedTokensIntoSegmentsOptimally(markedTokens, {
+                ...options,
+                hints: createHints('h'),
+            });
+
+            expect(withoutHints.map(({ start }) => start)).toEqual([0, 8]);
+            expect(withHints.map(({ start }) => start)).toEqual([0, 7]);
+        });
+
+        it('should weigh soft hints by their weight', () => {
+            const markedTokens: MarkedToken[] = [
+                ...toMarkedTokens('a b c d e f g h'),
+                SEGMENT_BREAK,
+                ...toMarkedTokens('i j k l m n o p', 8),
+            ];
+            markedTokens.splice(7, 0, SEGMENT_BREAK);
+
+            const group = (weight: number) =>
+                groupMarkedTokensIntoSegmentsOptimally(markedTokens, {
+                    hints: createHints({ phrase: 'h', type: 'soft', weight }),
+                    maxSecondsPerSegment: 10,
+                    minWordsPerSegment: 1,
+                }).map(({ start }) => start);
+
+            expect(group(1)).toEqual([0, 7]);
+            expect(group(0.01)).toEqual([0, 8]);
+        });
+
+        it('should always start a new segment at ALWAYS_BREAK and drop marker-only runs', () => {
+            const markedTokens: MarkedToken[] = [
+                SEGMENT_BREAK,
+                { end: 1, start: 0, text: 'Hello.' },
+                ALWAYS_BREAK,
+                { end: 2, start: 1, text: 'Next' },
+                { end: 3, start: 2, text: 'topic.' },
+                ALWAYS_BREAK,
+                SEGMENT_BREAK,
+            ];
+
+            expect(
+                groupMarkedTokensIntoSegmentsOptimally(markedTokens, {
+                    maxSecondsPerSegment: 10,
+                    minWordsPerSegment: 3,
+                }),
+            ).toEqual([
+                { end: 1, start: 0, tokens: [SEGMENT_BREAK, { end: 1, start: 0, text: 'Hello.' }] },
+                {
+                    end: 3,
+                    start: 1,
+                    tokens: [ALWAYS_BREAK, { end: 2, start: 1, text: 'Next' }, { end: 3, start: 2, text: 'topic.' }],
+                },
+            ]);
+
+            expect(
+                groupMarkedTokensIntoSegmentsOptimally([SEGMENT_BREAK, ALWAYS_BREAK], {
+                    maxSecondsPerSegment: 10,
+                    minWordsPerSegment: 1,
+                }),
+            ).toEqual([]);
+        });
+
+        it('should flag the breaks that start a segment in the trace', () => {
+            const markedTokens: MarkedToken[] = [
+                SEGMENT_BREAK,
+                ...toMarkedTokens('One two three four five. Six seven eight nine ten.'),
+                ALWAYS_BREAK,
+                ...toMarkedTokens('Eleven twelve.', 10),
+            ];
+            const trace: BreakTrace = [
+                { marker: SEGMENT_BREAK, reason: 'gap' },
+                { marker: SEGMENT_BREAK, reason: 'punctuation' },
+                { marker: SEGMENT_BREAK, reason: 'gap', removed: 'duplicate' },
+                { marker: SEGMENT_BREAK, reason: 'punctuation' },
+                { marker: ALWAYS_BREAK, reason: 'speaker' },
+                { marker: SEGMENT_BREAK, reason: 'punctuation' },
+            ];
+
+            groupMarkedTokensIntoSegmentsOptimally(
+                markedTokens,
+                { maxSecondsPerSegment: 5, minWordsPerSegment: 1 },
+                trace,
+            );
+
+            expect(trace.map((explanation) => explanation.segmentBoundary)).toEqual([
+                undefined,
+                'optimal',
+                undefined,
+                undefined,
+                'always-break',
+                undefined,
+            ]);
+        });
     });
 
     describe('mergeShortSegmentsWithPrevious', () => {
@@ -398,6 +897,61 @@ describe('transcript', () => {
                 },
             ]);
         });
+
+        it('should not merge a short segment into a previous segment of another speaker', () => {
+            const segments: MarkedSegment[] = [
+                {
+                    end: 3,
+                    start: 0,
+                    tokens: [
+                        { end: 1, speaker: 'A', start: 0, text: 'Any' },
+                        { end: 2, speaker: 'A', start: 1, text: 'questions' },
+                        { end: 3, speaker: 'A', start: 2, text: 'today?' },
+                    ],
+                },
+                { end: 4, start: 3, tokens: [{ end: 4, speaker: 'B', start: 3, text: 'Yes.' }] },
+                { end: 5, start: 4, tokens: [{ end: 5, speaker: 'B', start: 4, text: 'Why?' }] },
+            ];
+
+            const result = mergeShortSegmentsWithPrevious(segments, 2);
+
+            expect(result).toHaveLength(2);
+            expect(result[1]).toEqual({
+                end: 5,
+                start: 3,
+                tokens: [
+                    { end: 4, speaker: 'B', start: 3, text: 'Yes.' },
+                    { end: 5, speaker: 'B', start: 4, text: 'Why?' },
+                ],
+            });
+        });
+
+        it('should merge a short segment whose words are unlabelled into the previous speaker', () => {
+            const segments: MarkedSegment[] = [
+                {
+                    end: 2,
+                    start: 0,
+                    tokens: [
+                        { end: 1, speaker: 'A', start: 0, text: 'Any' },
+                        { end: 2, speaker: 'A', start: 1, text: 'questions' },
+                    ],
+                },
+                { end: 3, start: 2, tokens: [SEGMENT_BREAK, { end: 3, start: 2, text: 'today?' }] },
+            ];
+
+            expect(mergeShortSegmentsWithPrevious(segments, 2)).toEqual([
+                {
+                    end: 3,
+                    start: 0,
+                    tokens: [
+                        { end: 1, speaker: 'A', start: 0, text: 'Any' },
+                        { end: 2, speaker: 'A', start: 1, text: 'questions' },
+                        SEGMENT_BREAK,
+                        { end: 3, start: 2, text: 'today?' },
+                    ],
+                },
+            ]);
+        });
     });
 
     describe('mapSegmentsIntoFormattedSegments', () => {
@@ -615,6 +1169,42 @@ describe('transcript', () => {
                 },
             ]);
         });
+
+        it('exposes the lowest token confidence on the formatted segment', () => {
+            const [result] = mapSegmentsIntoFormattedSegments([
+                {
+                    end: 2,
+                    start: 0,
+                    tokens: [
+                        { confidence: 0.8, end: 1, start: 0, text: 'Hello' },
+                        { confidence: 0.6, end: 2, start: 1, text: 'world' },
+                    ],
+                },
+            ]);
+
+            expect(result.confidence).toBe(0.6);
+        });
+
+        it('exposes a shared speaker and lets lines be prefixed with it', () => {
+            const [result] = mapSegmentsIntoFormattedSegments(
+                [
+                    {
+                        end: 2,
+                        start: 0,
+                        tokens: [
+                            { end: 1, speaker: 'Host', start: 0, text: 'Welcome' },
+                            SEGMENT_BREAK,
+                            { end: 2, speaker: 'Host', start: 1, text: 'back' },
+                        ],
+                    },
+                ],
+                undefined,
+                ({ speaker, text }) => `${speaker}: ${text}`,
+            );
+
+            expect(result.speaker).toBe('Host');
+            expect(result.text).toBe('Host: Welcome\nHost: back');
+        });
     });
 
     describe('markAndCombineSegments', () => {
@@ -629,6 +1219,41 @@ describe('transcript', () => {
             };
         });
 
+        it('should produce the same segments with structured markers as with the string constants', () => {
+            const segments: Segment[] = [
+                {
+                    end: 9,
+                    start: 0,
+                    text: 'Hello there friend. uh How are you today? Fine thanks',
+                    tokens: [
+                        { end: 0.5, start: 0, text: 'Hello' },
+                        { end: 1, start: 0.5, text: 'there' },
+                        { end: 1.5, start: 1, text: 'friend.' },
+                        { end: 2, start: 1.5, text: 'uh' },
+                        { end: 2.5, start: 2, text: 'How' },
+                        { end: 3, start: 2.5, text: 'are' },
+                        { end: 3.5, start: 3, text: 'you' },
+                        { end: 4, start: 3.5, text: 'today?' },
+                        { end: 8, start: 7.5, text: 'Fine' },
+                        { end: 9, start: 8.5, text: 'thanks' },
+                    ],
+                },
+            ];
+
+            const structured = markAndCombineSegments(segments, { ...options, structuredMarkers: true });
+            const legacy = markAndCombineSegments(segments, options);
+
+            expect(structured.flatMap((s) => s.tokens).some((t) => typeof t === 'object' && 'strength' in t)).toBe(
+                true,
+            );
+            expect(structured.map((s) => s.tokens.map((t) => (isBreakMarker(t) ? toLegacyBreakMarker(t) : t)))).toEqual(
+                legacy.map((s) => s.tokens),
+            );
+            expect(formatSegmentsToTimestampedTranscript(structured, 10)).toEqual(
+                formatSegmentsToTimestampedTranscript(legacy, 10),
+            );
+        });
+
         it('should process segments with fillers but collapse to prevent isolated tokens', () => {
             const segments: Segment[] = [
                 {
@@ -963,6 +1588,108 @@ describe('transcript', () => {
             ]);
         });
 
+        it('should explain every break and what each stage did with it when a trace is passed', () => {
+            const tokens: Token[] = [
+                { end: 1, start: 0, text: 'Hello' },
+                { end: 2, start: 1, text: 'uh' },
+                { end: 3, start: 2, text: 'world.' },
+                { end: 7, start: 6, text: 'Then' },
+                { end: 8, start: 7, text: 'we' },
+            ];
+            const trace: BreakTrace = [];
+
+            const result = markAndCombineSegments([{ end: 8, start: 0, text: '', tokens }], {
+                fillers: ['uh'],
+                gapThreshold: 1,
+                maxSecondsPerSegment: 1,
+                minWordsPerSegment: 3,
+                trace,
+            });
+
+            expect(result).toHaveLength(1);
+            expect(trace).toEqual([
+                {
+                    detail: 'uh',
+                    marker: SEGMENT_BREAK,
+                    next: tokens[2],
+                    previous: tokens[0],
+                    reason: 'filler',
+                    removed: 'isolated-token',
+                },
+                {
+                    detail: '.',
+                    marker: SEGMENT_BREAK,
+                    next: tokens[3],
+                    previous: tokens[2],
+                    reason: 'punctuation',
+                    removed: 'duplicate',
+                },
+                {
+                    detail: 'gap of 3.00s',
+                    marker: SEGMENT_BREAK,
+                    next: tokens[3],
+                    previous: tokens[2],
+                    reason: 'gap',
+                    segmentBoundary: 'merged-short',
+                },
+            ]);
+        });
+
+        it('should keep the trace in step with the breaks when grouping drops a break with no words after it', () => {
+            const tokens: Token[] = 'we are done the end one two three four five six seven'
+                .split(' ')
+                .map((text, i) => {
+                    const start = i < 10 ? i : i + 2;
+                    return { end: start + 1, speaker: i < 5 ? 'A' : 'B', start, text };
+                });
+
+            for (const segmentation of ['greedy', 'optimal'] as const) {
+                const trace: BreakTrace = [];
+
+                const result = markAndCombineSegments([{ end: 14, start: 0, text: '', tokens }], {
+                    gapThreshold: 1,
+                    hints: createHints({ phrase: 'the end', position: 'after' }),
+                    maxSecondsPerSegment: 2,
+                    minWordsPerSegment: 3,
+                    segmentation,
+                    trace,
+                });
+
+                expect(result.map((segment) => segment.tokens)).toEqual([
+                    tokens.slice(0, 5),
+                    [ALWAYS_BREAK, ...tokens.slice(5, 10), SEGMENT_BREAK, ...tokens.slice(10)],
+                ]);
+                expect(
+                    trace.map(({ reason, removed, segmentBoundary }) => ({ reason, removed, segmentBoundary })),
+                ).toEqual([
+                    { reason: 'hint', removed: 'empty-segment', segmentBoundary: undefined },
+                    { reason: 'speaker', removed: undefined, segmentBoundary: 'always-break' },
+                    { reason: 'gap', removed: undefined, segmentBoundary: 'merged-short' },
+                ]);
+            }
+        });
+
+        it('should support optimal segmentation', () => {
+            const tokens = 'One two three four five. Six seven eight nine ten. Eleven twelve.'
+                .split(' ')
+                .map((text, i) => ({ end: i + 1, start: i, text }));
+            const segments: Segment[] = [{ end: 12, start: 0, text: '', tokens }];
+
+            const greedy = markAndCombineSegments(segments, { ...options, gapThreshold: 5, maxSecondsPerSegment: 10 });
+            const optimal = markAndCombineSegments(segments, {
+                ...options,
+                gapThreshold: 5,
+                maxSecondsPerSegment: 10,
+                segmentation: 'optimal',
+            });
+
+            expect(greedy).toHaveLength(1);
+            expect(optimal.map(({ end, start }) => [start, end])).toEqual([
+                [0, 5],
+                [5, 12],
+            ]);
+        });
+
         it('should handle empty input gracefully', () => {
             const result = markAndCombineSegments([], options);
             expect(result).toEqual([]);
@@ -1142,6 +1869,362 @@ describe('transcript', () => {
             const result = formatSegmentsToTimestampedTranscript(segments, 10);
             expect(result).toEqual('1:00:01: An hour in.');
         });
+
+        it('passes the lowest token confidence of each line to the formatter', () => {
+            const segments: MarkedSegment[] = [
+                {
+                    end: 3,
+                    start: 0,
+                    tokens: [
+                        { confidence: 0.9, end: 1, start: 0, text: 'Mostly' },
+                        { confidence: 0.4, end: 2, start: 1, text: 'clear.' },
+                        ALWAYS_BREAK,
+                        { end: 3, start: 2, text: 'Unscored.' },
+                    ],
+                },
+            ];
+
+            const result = formatSegmentsToTimestampedTranscript(segments, 10, ({ confidence, text }) =>
+                confidence !== undefined && confidence < 0.5 ? `[?] ${text}` : text,
+            );
+
+            expect(result).toEqual(['[?] Mostly clear.', 'Unscored.'].join('\n'));
+        });
+
+        it('passes the shared speaker of each line to the formatter', () => {
+            const segments: MarkedSegment[] = [
+                {
+                    end: 3,
+                    start: 0,
+                    tokens: [
+                        { end: 1, speaker: 'Lecturer', start: 0, text: 'Any questions?' },
+                        ALWAYS_BREAK,
+                        { end: 2, speaker: 'Student', start: 1, text: 'Yes,' },
+                        { end: 3, speaker: 'Student', start: 2, text: 'one.' },
+                    ],
+                },
+            ];
+
+            const result = formatSegmentsToTimestampedTranscript(segments, 10, ({ speaker, text }) =>
+                speaker ? `${speaker}: ${text}` : text,
+            );
+
+            expect(result).toEqual(['Lecturer: Any questions?', 'Student: Yes, one.'].join('\n'));
+        });
+    });
+
+    describe('formatSegmentsToSrt', () => {
+        it('numbers cues and renders SRT timestamps', () => {
+            const segments: MarkedSegment[] = [
+                {
+                    end: 5,
+                    start: 0.5,
+                    tokens: [{ end: 2, start: 0.5, text: 'Hello' }, { end: 5, start: 2, text: 'there.' }, ALWAYS_BREAK],
+                },
+                {
+                    end: 3725.25,
+                    start: 3723.1,
+                    tokens: [{ end: 3725.25, start: 3723.1, text: 'Later.' }],
+                },
+            ];
+
+            expect(formatSegmentsToSrt(segments, { maxSecondsPerLine: 10 })).toEqual(
+                [
+                    '1',
+                    '00:00:00,500 --> 00:00:05,000',
+                    'Hello there.',
+                    '',
+                    '2',
+                    '01:02:03,100 --> 01:02:05,250',
+                    'Later.',
+                    '',
+                ].join('\n'),
+            );
+        });
+
+        it('splits cues on ALWAYS_BREAK and on punctuated SEGMENT_BREAK once maxSecondsPerLine is reached', () => {
+            const segments: MarkedSegment[] = [
+                {
+                    end: 15,
+                    start: 0,
+                    tokens: [
+                        { end: 2, start: 0, text: 'Hello' },
+                        { end: 5, start: 2, text: 'there.' },
+                        SEGMENT_BREAK,
+                        { end: 7, start: 6, text: 'How' },
+                        { end: 8, start: 7, text: 'are' },
+                        SEGMENT_BREAK,
+                        { end: 9, start: 8, text: 'you?' },
+                        ALWAYS_BREAK,
+                        { end: 15, start: 12, text: 'Fine.' },
+                    ],
+                },
+            ];
+
+            expect(formatSegmentsToSrt(segments, { maxSecondsPerLine: 5 })).toEqual(
+                [
+                    '1',
+                    '00:00:00,000 --> 00:00:05,000',
+                    'Hello there.',
+                    '',
+                    '2',
+                    '00:00:06,000 --> 00:00:09,000',
+                    'How are you?',
+                    '',
+                    '3',
+                    '00:00:12,000 --> 00:00:15,000',
+                    'Fine.',
+                    '',
+                ].join('\n'),
+            );
+        });
+
+        it('rounds to the nearest millisecond and trims overlapping cues', () => {
+            const segments: Segment[] = [
+                {
+                    end: 2.0004,
+                    start: 0.0006,
+                    text: 'First cue',
+                    tokens: [
+                        { end: 1, start: 0.0006, text: 'First' },
+                        { end: 2.0004, start: 1, text: 'cue' },
+                    ],
+                },
+                {
+                    end: 3.9996,
+                    start: 1.5,
+                    text: 'Second cue',
+                    tokens: [
+                        { end: 3, start: 1.5, text: 'Second' },
+                        { end: 3.9996, start: 3, text: 'cue' },
+                    ],
+                },
+            ];
+
+            expect(formatSegmentsToSrt(segments, { maxSecondsPerLine: 10 })).toEqual(
+                [
+                    '1',
+                    '00:00:00,001 --> 00:00:01,500',
+                    'First cue',
+                    '',
+                    '2',
+                    '00:00:01,500 --> 00:00:04,000',
+                    'Second cue',
+                    '',
+                ].join('\n'),
+            );
+        });
+
+        it('pushes a cue forward when it starts at or before the previous cue', () => {
+            const segments: MarkedSegment[] = [
+                { end: 3, start: 1, tokens: [{ end: 3, start: 1, text: 'One' }] },
+                { end: 4, start: 1, tokens: [{ end: 4, start: 1, text: 'Two' }] },
+            ];
+
+            const result = formatSegmentsToSrt(segments, { maxSecondsPerLine: 10 });
+            expect(result).toContain('00:00:03,000 --> 00:00:04,000\nTwo');
+        });
+
+        it('keeps a positive duration for a cue that ends within the previous cue', () => {
+            const segments: MarkedSegment[] = [
+                { end: 3, start: 1, tokens: [{ end: 3, start: 1, text: 'One' }] },
+                { end: 2, start: 1, tokens: [{ end: 2, start: 1, text: 'Two' }] },
+                { end: 3, start: 3, tokens: [{ end: 3, start: 3, text: 'Three' }] },
+            ];
+
+            expect(formatSegmentsToSrt(segments, { maxSecondsPerLine: 10 })).toEqual(
+                [
+                    '1',
+                    '00:00:01,000 --> 00:00:03,000',
+                    'One',
+                    '',
+                    '2',
+                    '00:00:03,000 --> 00:00:04,000',
+                    'Two',
+                    '',
+                    '3',
+                    '00:00:04,000 --> 00:00:04,001',
+                    'Three',
+                    '',
+                ].join('\n'),
+            );
+        });
+
+        it('returns an empty string when there are no tokens', () => {
+            expect(formatSegmentsToSrt([{ end: 0, start: 0, tokens: [] }], { maxSecondsPerLine: 5 })).toEqual('');
+        });
+
+        it('splits, wraps and extends cues to fit the subtitle layout', () => {
+            const segments: MarkedSegment[] = [
+                {
+                    end: 4,
+                    start: 0,
+                    tokens: [
+                        { end: 0.5, start: 0, text: 'We' },
+                        { end: 1, start: 0.5, text: 'covered' },
+                        { end: 1.5, start: 1, text: 'the' },
+                        { end: 2, start: 1.5, text: 'basics.' },
+                        SEGMENT_BREAK,
+                        { end: 2.5, start: 2, text: 'Now' },
+                        { end: 3, start: 2.5, text: 'for' },
+                        { end: 3.5, start: 3, text: 'the' },
+                        { end: 4, start: 3.5, text: 'questions.' },
+                    ],
+                },
+                { end: 9, start: 8, tokens: [{ end: 9, start: 8, text: 'Yes?' }] },
+            ];
+
+            const result = formatSegmentsToSrt(segments, {
+                layout: { maxCharsPerLine: 12, maxCharsPerSecond: 10, minCueSeconds: 1.5 },
+                maxSecondsPerLine: 60,
+            });
+
+            expect(result).toEqual(
+                [
+                    '1',
+                    '00:00:00,000 --> 00:00:02,000',
+                    'We covered',
+                    'the basics.',
+                    '',
+                    '2',
+                    '00:00:02,000 --> 00:00:04,200',
+                    'Now for the',
+                    'questions.',
+                    '',
+                    '3',
+                    '00:00:08,000 --> 00:00:09,500',
+                    'Yes?',
+                    '',
+                ].join('\n'),
+            );
+        });
+    });
+
+    describe('formatSegmentsToWebVtt', () => {
+        const segments: MarkedSegment[] = [
+            {
+                end: 3,
+                start: 0.5,
+                tokens: [
+                    { end: 1.25, start: 0.5, text: 'Fish' },
+                    { end: 2, start: 1.25, text: '&' },
+                    { end: 3, start: 2, text: 'chips.' },
+                    ALWAYS_BREAK,
+                    { end: 5, start: 4, text: '<b>Done</b>' },
+                ],
+            },
+        ];
+
+        it('emits a header, cue identifiers and escaped cue text', () => {
+            expect(formatSegmentsToWebVtt(segments, { maxSecondsPerLine: 10 })).toEqual(
+                [
+                    'WEBVTT',
+                    '',
+                    '1',
+                    '00:00:00.500 --> 00:00:03.000',
+                    'Fish &amp; chips.',
+                    '',
+                    '2',
+                    '00:00:04.000 --> 00:00:05.000',
+                    '&lt;b&gt;Done&lt;/b&gt;',
+                    '',
+                ].join('\n'),
+            );
+        });
+
+        it('emits header text, NOTE blocks, cue settings and custom identifiers', () => {
+            const result = formatSegmentsToWebVtt(segments, {
+                cueSettings: { align: 'center', line: -1, position: 50 },
+                formatCueIdentifier: (cue, i) => `cue-${i}-${cue.start}`,
+                header: '- Lecture 1',
+                maxSecondsPerLine: 10,
+                notes: ['Edited --> reviewed'],
+            });
+
+            expect(result).toEqual(
+                [
+                    'WEBVTT - Lecture 1',
+                    '',
+                    'NOTE Edited -> reviewed',
+                    '',
+                    'cue-0-0.5',
+                    '00:00:00.500 --> 00:00:03.000 line:-1 position:50% align:center',
+                    'Fish &amp; chips.',
+                    '',
+                    'cue-1-4',
+                    '00:00:04.000 --> 00:00:05.000 line:-1 position:50% align:center',
+                    '&lt;b&gt;Done&lt;/b&gt;',
+                    '',
+                ].join('\n'),
+            );
+        });
+
+        it('collapses blank lines inside NOTE text so the note stays one block', () => {
+            const result = formatSegmentsToWebVtt(segments, {
+                maxSecondsPerLine: 10,
+                notes: ['First line\n\nSecond line\n  \n\nThird line'],
+            });
+
+            expect(result.split('\n\n').slice(0, 3)).toEqual([
+                'WEBVTT',
+                'NOTE First line\nSecond line\nThird line',
+                '1\n00:00:00.500 --> 00:00:03.000\nFish &amp; chips.',
+            ]);
+        });
+
+        it('emits inline word timestamps that stay inside the cue', () => {
+            const result = formatSegmentsToWebVtt(
+                [
+                    {
+                        end: 4,
+                        start: 0,
+                        tokens: [
+                            { end: 1.25, start: 0, text: 'The' },
+                            { end: 2, start: 1.25, text: 'quick' },
+                            { end: 2.5, start: 1.25, text: 'brown' },
+                            { end: 4, start: 2.5, text: 'fox' },
+                        ],
+                    },
+                ],
+                { maxSecondsPerLine: 10, wordTimestamps: true },
+            );
+
+            expect(result).toEqual(
+                [
+                    'WEBVTT',
+                    '',
+                    '1',
+                    '00:00:00.000 --> 00:00:04.000',
+                    'The <00:00:01.250>quick brown <00:00:02.500>fox',
+                    '',
+                ].join('\n'),
+            );
+        });
+
+        it('emits only the header when there are no cues', () => {
+            expect(formatSegmentsToWebVtt([], { maxSecondsPerLine: 5 })).toEqual('WEBVTT\n');
+        });
+    });
+
+    describe('getLowConfidenceSpans', () => {
+        it('should merge consecutive low-confidence tokens into spans', () => {
+            const tokens: Token[] = [
+                { confidence: 0.9, end: 1, start: 0, text: 'clear' },
+                { confidence: 0.3, end: 2, start: 1, text: 'mumbled' },
+                { confidence: 0.2, end: 3, start: 2, text: 'words' },
+                { end: 4, start: 3, text: 'unscored' },
+                { confidence: 0.4, end: 5, start: 4, text: 'again' },
+            ];
+
+            expect(getLowConfidenceSpans(tokens, 0.5)).toEqual([
+                { confidence: 0.2, end: 3, start: 1, text: 'mumbled words' },
+                { confidence: 0.4, end: 5, start: 4, text: 'again' },
+            ]);
+        });
+
+        it('should return no spans when every token is confident', () => {
+            expect(getLowConfidenceSpans([{ confidence: 0.9, end: 1, start: 0, text: 'ok' }], 0.5)).toEqual([]);
+        });
     });
 
     describe('updateSegmentWithGroundTruth', () => {
@@ -1397,6 +2480,112 @@ describe('transcript', () => {
         });
     });
 
+    describe('alignSegmentsWithGroundTruth', () => {
+        const segments: Segment[] = [
+            {
+                end: 3,
+                start: 0,
+                text: 'the quick brown',
+                tokens: [
+                    { end: 1, start: 0, text: 'the' },
+                    { end: 2, start: 1, text: 'quick' },
+                    { end: 3, start: 2, text: 'brown' },
+                ],
+            },
+            {
+                end: 9,
+                start: 4,
+                text: 'fox jumps over the lazy',
+                tokens: [
+                    { end: 5, start: 4, text: 'fox' },
+                    { end: 6, start: 5, text: 'jumps' },
+                    { end: 7, start: 6, text: 'over' },
+                    { end: 8, start: 7, text: 'the' },
+                    { end: 9, start: 8, text: 'lazy' },
+                ],
+            },
+            { end: 10, start: 9, text: 'dog', tokens: [{ end: 10, start: 9, text: 'dog' }] },
+        ];
+
+        it('should follow the paragraphs of the edited document and keep the original timings', () => {
+            const result = alignSegmentsWithGroundTruth(segments, 'The quick brown fox jumps.\n\nOver the lazy dog.');
+
+            expect(result).toEqual([
+                {
+                    end: 6,
+                    start: 0,
+                    text: 'The quick brown fox jumps.',
+                    tokens: [
+                        { end: 1, start: 0, text: 'The' },
+                        { end: 2, start: 1, text: 'quick' },
+                        { end: 3, start: 2, text: 'brown' },
+                        { end: 5, start: 4, text: 'fox' },
+                        { end: 6, start: 5, text: 'jumps.' },
+                    ],
+                },
+                {
+                    end: 10,
+                    start: 6,
+                    text: 'Over the lazy dog.',
+                    tokens: [
+                        { end: 7, start: 6, text: 'Over' },
+                        { end: 8, start: 7, text: 'the' },
+                        { end: 9, start: 8, text: 'lazy' },
+                        { end: 10, start: 9, text: 'dog.' },
+                    ],
+                },
+            ]);
+        });
+
+        it('should keep unmatched tokens with the paragraph before them', () => {
+            const result = alignSegmentsWithGroundTruth(segments, 'The quick brown fox\nover the lazy dog');
+
+            expect(result.map((segment) => segment.tokens.map((token) => token.text))).toEqual([
+                ['The', 'quick', 'brown', 'fox', 'jumps'],
+                ['over', 'the', 'lazy', 'dog'],
+            ]);
+            expect(result[0].tokens[4].isUnknown).toBeTrue();
+        });
+
+        it('should not move the first or last token onto paragraphs the editor added', () => {
+            const tokens = ['a', 'b', 'c', 'd', 'e', 'f'].map((text, i) => ({ end: i + 1, start: i, text }));
+            const lecture: Segment[] = [
+                { end: 3, start: 0, text: 'a b c', tokens: tokens.slice(0, 3) },
+                { end: 6, start: 3, text: 'd e f', tokens: tokens.slice(3) },
+            ];
+
+            expect(alignSegmentsWithGroundTruth(lecture, 'x y\na b c d e f')).toEqual([
+                {
+                    end: 0,
+                    start: 0,
+                    text: 'x y',
+                    tokens: [
+                        { end: 0, start: 0, text: 'x' },
+                        { end: 0, start: 0, text: 'y' },
+                    ],
+                },
+                { end: 6, start: 0, text: 'a b c d e f', tokens },
+            ]);
+
+            expect(alignSegmentsWithGroundTruth(lecture, 'a b c d e f\ng h')).toEqual([
+                { end: 6, start: 0, text: 'a b c d e f', tokens },
+                {
+                    end: 6,
+                    start: 6,
+                    text: 'g h',
+                    tokens: [
+                        { end: 6, start: 6, text: 'g' },
+                        { end: 6, start: 6, text: 'h' },
+                    ],
+                },
+            ]);
+        });
+
+        it('should return no segments for an empty document', () => {
+            expect(alignSegmentsWithGroundTruth(segments, ' \n ')).toEqual([]);
+        });
+    });
+
     describe('cleanupIsolatedTokens', () => {
         it('should clean up the isolated token since it will be followed by a break', () => {
             const actual = cleanupIsolatedTokens([
@@ -1678,6 +2867,51 @@ describe('transcript', () => {
         });
     });
 
+    describe('getHintMatchReport', () => {
+        const tokens: Token[] = [
+            { end: 1, start: 0, text: 'السؤال' },
+            { end: 2, start: 1, text: 'التالي:' },
+            { end: 3, start: 2, text: 'ما' },
+            { end: 4, start: 3, text: 'حكم' },
+            { end: 5, start: 4, text: 'سؤال' },
+            { end: 6, start: 5, text: 'التالى' },
+        ];
+
+        it('should report every match, the count per hint and the hints that never matched', () => {
+            const hints = createHints('السؤال التالي', { phrase: 'والله أعلم', position: 'after' });
+            const report = getHintMatchReport(tokens, hints);
+
+            expect(report.matches).toEqual([
+                {
+                    end: 2,
+                    endIndex: 1,
+                    hint: { phrase: 'السؤال التالي' },
+                    start: 0,
+                    startIndex: 0,
+                    text: 'السؤال التالي:',
+                },
+            ]);
+            expect(report.counts).toEqual([
+                { count: 1, hint: { phrase: 'السؤال التالي' } },
+                { count: 0, hint: { phrase: 'والله أعلم', position: 'after' } },
+            ]);
+            expect(report.unmatched).toEqual([{ phrase: 'والله أعلم', position: 'after' }]);
+        });
+
+        it('should include the occurrences only found thanks to a tolerance', () => {
+            const hints = createHints({ tolerance: { arabicVariants: true } }, 'السؤال التالي', 'حكم');
+            const report = getHintMatchReport(tokens, hints);
+
+            expect(report.matches.map(({ startIndex, text }) => [startIndex, text])).toEqual([
+                [0, 'السؤال التالي:'],
+                [3, 'حكم'],
+                [4, 'سؤال التالى'],
+            ]);
+            expect(report.counts.map(({ count }) => count)).toEqual([2, 1]);
+            expect(report.unmatched).toEqual([]);
+        });
+    });
+
     describe('getFirstTokenForSelection', () => {
         let segment: Segment;
 
@@ -1,16 +1,51 @@
 import type {
+    BreakExplanation,
+    BreakTrace,
+    FormatSrtOptions,
+    FormatWebVttOptions,
     GroundedSegment,
+    GroundedToken,
+    HintMatch,
+    HintMatchReport,
+    Hints,
+    InterpolationOptions,
     MarkAndCombineSegmentsOptions,
     MarkedSegment,
     MarkedToken,
     MarkTokensWithDividersOptions,
+    OptimalSegmentationOptions,
     Segment,
+    SubtitleLayoutOptions,
     Token,
+    WebVttCueSettings,
 } from './types';
 
+import type { AlwaysBreakMarker, SegmentBreakMarker } from './utils/constants';
 import { ALWAYS_BREAK, SEGMENT_BREAK } from './utils/constants';
-import { createHints, formatSecondsToTimestamp, isEndingWithPunctuation, normalizeTokenText } from './utils/textUtils';
-import { isHintMatched, syncTokensWithGroundTruth } from './utils/transcriptUtils';
+import { computeGapThresholds } from './utils/gaps';
+import { getHintDefinitions } from './utils/hintSerialization';
+import { interpolateWordTimings } from './utils/interpolation';
+import { type AnyBreakMarker, type BreakKind, isBreakMarker, isHardBreak, isSoftBreak } from './utils/markers';
+import { getMinimumCueSeconds, splitTokensIntoCues, wrapTokensIntoLines } from './utils/subtitleLayout';
+import {
+    createHints,
+    formatSecondsToSrtTimestamp,
+    formatSecondsToTimestamp,
+    formatSecondsToVttTimestamp,
+    isEndingWithPunctuation,
+    normalizeTokenText,
+    tokenizeGroundTruth,
+} from './utils/textUtils';
+import {
+    getHintMatchLength,
+    getPhraseMatchLength,
+    getProtectedContinuations,
+    getSoftHintMatch,
+    getWordsMatchLength,
+    isHintMatched,
+    syncTokensWithGroundTruth,
+    syncTokensWithGroundTruthWords,
+} from './utils/transcriptUtils';
 
 /**
  * Estimates a segment with word-level tokens from a single token with multi-word text.
@@ -20,75 +55,350 @@ import { isHintMatched, syncTokensWithGroundTruth } from './utils/transcriptUtil
  * @param {number} param0.end - End time of the token in seconds
  * @param {number} param0.start - Start time of the token in seconds
  * @param {string} param0.text - The multi-word text content
+ * @param {InterpolationOptions} [options] - How to divide the time between the words, equally by default
  * @returns {Segment} A segment with the original text and estimated word-level tokens
  */
-export const estimateSegmentFromToken = ({ end, start, text }: Token): Segment => {
-    const words = text.split(/\s+/);
-    const totalTokens = words.length;
-    const segmentDuration = end - start;
-    const tokenDuration = segmentDuration / totalTokens;
+export const estimateSegmentFromToken = ({ end, start, text }: Token, options?: InterpolationOptions): Segment => {
+    const tokens = interpolateWordTimings(start, end, text.split(/\s+/), options?.interpolation);
+    return { end, start, text, tokens };
+};
 
-    const tokens = words.map((word, i) => ({
-        end: start + (i + 1) * tokenDuration,
-        start: start + i * tokenDuration,
-        text: word,
-    }));
+const isLowConfidence = (token: Token, minConfidence?: number) =>
+    minConfidence !== undefined && token.confidence !== undefined && token.confidence < minConfidence;
 
-    return { end, start, text, tokens };
+/**
+ * Returns the live (not removed) explanations of a trace, which correspond one-to-one and in order to the break
+ * markers present in the output of the previous stage.
+ */
+const getLiveBreaks = (trace: BreakTrace): BreakExplanation[] => trace.filter((explanation) => !explanation.removed);
+
+/**
+ * Records what a later stage did with a traced break, ignoring breaks that are not traced.
+ */
+const updateBreak = (explanation: BreakExplanation | undefined, update: Partial<BreakExplanation>) => {
+    if (explanation) {
+        Object.assign(explanation, update);
+    }
+};
+
+/**
+ * Flags traced breaks that a grouping stage dropped because no word followed them before the next hard break or the
+ * end of the transcript.
+ */
+const dropBreaks = (explanations: BreakExplanation[]) => {
+    for (const explanation of explanations) {
+        explanation.removed = 'empty-segment';
+    }
+};
+
+type BreakCause = Pick<BreakExplanation, 'detail' | 'reason'>;
+
+/**
+ * Whether the speaker changes between two speaker labels. A missing label is not a change, so a word the vendor left
+ * unlabelled does not split a speaker turn.
+ */
+const isSpeakerChange = (prev: string | undefined, next: string | undefined) =>
+    prev !== undefined && next !== undefined && prev !== next;
+
+/**
+ * Returns, for every token, the last speaker label before it, skipping unlabelled tokens.
+ */
+const getPreviousSpeakers = (tokens: Token[]): (string | undefined)[] => {
+    let speaker: string | undefined;
+
+    return tokens.map((token) => {
+        const prevSpeaker = speaker;
+        speaker = token.speaker ?? speaker;
+        return prevSpeaker;
+    });
+};
+
+const getHardBreakCause = (
+    prevSpeaker: string | undefined,
+    token: Token,
+    hintPhrase: Token[],
+): BreakCause | undefined => {
+    if (isSpeakerChange(prevSpeaker, token.speaker)) {
+        return { detail: `${prevSpeaker} → ${token.speaker}`, reason: 'speaker' };
+    }
+
+    if (hintPhrase.length > 0) {
+        return { detail: hintPhrase.map((t) => t.text).join(' '), reason: 'hint' };
+    }
+
+    return undefined;
+};
+
+const getSoftBreakCause = (
+    prev: Token,
+    token: Token,
+    gapThreshold: number,
+    prevLowConfidence: boolean,
+    lowConfidence: boolean,
+): BreakCause | undefined => {
+    const gap = token.start - prev.end;
+
+    if (gap > gapThreshold) {
+        return { detail: `gap of ${gap.toFixed(2)}s`, reason: 'gap' };
+    }
+
+    if (lowConfidence !== prevLowConfidence) {
+        return {
+            detail: lowConfidence ? 'low-confidence run starts' : 'low-confidence run ends',
+            reason: 'low-confidence',
+        };
+    }
+
+    return undefined;
+};
+
+/**
+ * The kind of structured marker emitted for each reason a break is inserted.
+ */
+const BREAK_KIND_BY_REASON: Record<BreakExplanation['reason'], BreakKind> = {
+    filler: 'segment',
+    gap: 'segment',
+    hint: 'paragraph',
+    'low-confidence': 'segment',
+    punctuation: 'sentence',
+    speaker: 'speaker',
+};
+
+const toStructuredMarker = (
+    marker: AlwaysBreakMarker | SegmentBreakMarker,
+    { detail, reason }: BreakCause,
+): AnyBreakMarker => ({
+    kind: BREAK_KIND_BY_REASON[reason],
+    ...(detail && { metadata: { detail } }),
+    source: reason,
+    strength: marker === ALWAYS_BREAK ? 'hard' : 'soft',
+});
+
+/**
+ * Accumulates marked tokens and, when tracing, an explanation for every break linked to the tokens around it.
+ * Soft breaks that would split a protected phrase are deferred until the phrase ends.
+ */
+const createMarkedTokenWriter = (structuredMarkers?: boolean, trace?: BreakTrace) => {
+    const marked: MarkedToken[] = [];
+    let pending: BreakExplanation[] = [];
+    let previous: Token | undefined;
+    let deferred: BreakCause | undefined;
+
+    const pushBreak = (legacyMarker: AlwaysBreakMarker | SegmentBreakMarker, { detail, reason }: BreakCause) => {
+        const marker = structuredMarkers ? toStructuredMarker(legacyMarker, { detail, reason }) : legacyMarker;
+        marked.push(marker);
+
+        // A soft break stands in for the deferred one; a hard break inside the phrase does not, so it stays deferred
+        if (legacyMarker === SEGMENT_BREAK) {
+            deferred = undefined;
+        }
+
+        if (trace) {
+            const explanation: BreakExplanation = {
+                marker,
+                reason,
+                ...(detail && { detail }),
+                ...(previous && { previous }),
+            };
+            trace.push(explanation);
+            pending.push(explanation);
+        }
+    };
+
+    return {
+        deferBreak: (cause: BreakCause) => {
+            deferred ??= cause;
+        },
+        flushDeferredBreak: () => {
+            if (deferred) {
+                pushBreak(SEGMENT_BREAK, { ...deferred, detail: `${deferred.detail}, moved after a protected phrase` });
+            }
+        },
+        marked,
+        pushBreak,
+        pushToken: (token: Token) => {
+            marked.push(token);
+            previous = token;
+
+            for (const explanation of pending) {
+                explanation.next = token;
+            }
+
+            pending = [];
+        },
+    };
 };
 
+/**
+ * Maps the index of the last token of every confidently recognized break-after hint phrase to the phrase.
+ */
+const getBreakAfterHintPhrases = (
+    tokens: Token[],
+    normalizedTexts: string[],
+    hints: Hints,
+    minConfidence?: number,
+): Map<number, Token[]> => {
+    const phrases = new Map<number, Token[]>();
+
+    if (!hints.breakAfter) {
+        return phrases;
+    }
+
+    for (let i = 0; i < tokens.length; i++) {
+        const phrase = tokens.slice(i, i + getPhraseMatchLength(normalizedTexts, hints.breakAfter, i, hints));
+
+        if (phrase.length > 0 && !phrase.some((t) => isLowConfidence(t, minConfidence))) {
+            phrases.set(i + phrase.length - 1, phrase);
+        }
+    }
+
+    return phrases;
+};
+
+/**
+ * A soft hint breaks once its weight plus the pause before it, as a fraction of the gap threshold, reaches this: a
+ * hint of weight 1 always breaks, and a lighter one needs a pause of the rest of the gap threshold.
+ */
+const SOFT_HINT_BREAK_THRESHOLD = 1;
+
 /**
  * Marks tokens with segment dividers based on various criteria including:
  * - Filler words (uh, umm, etc.)
- * - Explicit multi-word hints
+ * - Explicit multi-word hints, before or after the phrase
+ * - Soft hints, which only insert a candidate `SEGMENT_BREAK` before the phrase
+ * - Changes of speaker
  * - Significant time gaps between tokens
  * - Punctuation at the end of tokens
+ * - The start and end of runs of low-confidence tokens
+ *
+ * Soft breaks (gaps, punctuation, low-confidence runs) that would fall inside a protected hint phrase are moved
+ * after the phrase.
  *
  * @param {Token[]} tokens - Array of tokens to process
  * @param {Object} options - Configuration options
+ * @param {AdaptiveGapThresholdOptions} [options.adaptiveGapThreshold] - Optionally derive the gap threshold from the
+ * pauses of the input (globally or in a sliding window) instead of using `gapThreshold` everywhere
  * @param {string[]} [options.fillers] - Optional array of filler words to mark as segment breaks
  * @param {number} options.gapThreshold - Minimum time gap (in seconds) to consider a segment break
  * @param {Hints} [options.hints] - Hints created with the createHints() function to indicate when to insert a new segment break.
+ * @param {number} [options.minConfidence] - Tokens with a `confidence` below this are isolated by soft breaks and cannot trigger hints
+ * @param {boolean} [options.structuredMarkers] - Insert structured `BreakMarker` objects describing each break instead of
+ * the `SEGMENT_BREAK`/`ALWAYS_BREAK` strings
+ * @param {BreakTrace} [options.trace] - Optional trace that receives an explanation of every inserted break
  * @returns {MarkedToken[]} Tokens with segment break markers inserted
  */
 export const markTokensWithDividers = (
     tokens: Token[],
-    { fillers = [], gapThreshold, hints }: MarkTokensWithDividersOptions,
+    {
+        adaptiveGapThreshold,
+        fillers = [],
+        gapThreshold,
+        hints,
+        minConfidence,
+        structuredMarkers,
+        trace,
+    }: MarkTokensWithDividersOptions,
 ): MarkedToken[] => {
-    const marked: MarkedToken[] = [];
-    let prevEnd: null | number = null;
+    const writer = createMarkedTokenWriter(structuredMarkers, trace);
+    const gapThresholds = adaptiveGapThreshold
+        ? computeGapThresholds(tokens, gapThreshold, adaptiveGapThreshold)
+        : tokens.map(() => gapThreshold);
+    const prevSpeakers = getPreviousSpeakers(tokens);
+    let prevToken: Token | undefined;
+    let prevLowConfidence = false;
     const normalizedTexts = hints ? tokens.map((t) => normalizeTokenText(t.text, hints.normalization)) : null;
 
+    const protectedContinuations = hints && normalizedTexts ? getProtectedContinuations(normalizedTexts, hints) : [];
+    const breakAfterPhrases =
+        hints && normalizedTexts
+            ? getBreakAfterHintPhrases(tokens, normalizedTexts, hints, minConfidence)
+            : new Map<number, Token[]>();
+    const pushSoftBreak = (idx: number, cause: BreakCause) =>
+        protectedContinuations[idx] ? writer.deferBreak(cause) : writer.pushBreak(SEGMENT_BREAK, cause);
+
+    const closeToken = (idx: number) => {
+        const { text } = tokens[idx];
+
+        // Punctuation at end triggers a break
+        if (isEndingWithPunctuation(text)) {
+            pushSoftBreak(idx + 1, { detail: text.at(-1), reason: 'punctuation' });
+        }
+
+        // A break-after hint ends its phrase with a hard break
+        const breakAfterPhrase = breakAfterPhrases.get(idx);
+
+        if (breakAfterPhrase) {
+            writer.pushBreak(ALWAYS_BREAK, { detail: breakAfterPhrase.map((t) => t.text).join(' '), reason: 'hint' });
+        }
+
+        // Breaks deferred by a protected phrase land right after it
+        if (!protectedContinuations[idx + 1]) {
+            writer.flushDeferredBreak();
+        }
+    };
+
+    // Hints only force a break when every matched token was recognized confidently
+    const getConfidentHintPhrase = (idx: number) => {
+        const length = hints && normalizedTexts ? getHintMatchLength(normalizedTexts, hints, idx) : 0;
+        const phrase = tokens.slice(idx, idx + length);
+        return phrase.some((t) => isLowConfidence(t, minConfidence)) ? [] : phrase;
+    };
+
+    // Soft hints only suggest a break, under the same condition, once their weight and the pause before them are
+    // enough together
+    const getSoftHintCause = (prev: Token, idx: number): BreakCause | undefined => {
+        const match = hints && normalizedTexts ? getSoftHintMatch(normalizedTexts, hints, idx) : undefined;
+        const phrase = match ? tokens.slice(idx, idx + match.length) : [];
+
+        if (!match || phrase.some((t) => isLowConfidence(t, minConfidence))) {
+            return undefined;
+        }
+
+        const pausePressure = Math.max(0, tokens[idx].start - prev.end) / gapThresholds[idx];
+
+        if (match.weight + pausePressure < SOFT_HINT_BREAK_THRESHOLD) {
+            return undefined;
+        }
+
+        return { detail: phrase.map((t) => t.text).join(' '), reason: 'hint' };
+    };
+
     for (let idx = 0; idx < tokens.length; idx++) {
         const token = tokens[idx];
+        const lowConfidence = isLowConfidence(token, minConfidence);
 
-        // Filler words always break
+        // Filler words always break, unless they interrupt a protected phrase
         if (fillers.includes(token.text)) {
-            marked.push(SEGMENT_BREAK);
+            pushSoftBreak(idx, { detail: token.text, reason: 'filler' });
             continue;
         }
 
-        if (hints && normalizedTexts && isHintMatched(normalizedTexts, hints, idx)) {
-            marked.push(ALWAYS_BREAK);
-        }
+        // A change of speaker or a hint forces a break
+        const hardBreak = getHardBreakCause(prevSpeakers[idx], token, getConfidentHintPhrase(idx));
 
-        // Large time gap triggers a break
-        if (prevEnd !== null && token.start - prevEnd > gapThreshold) {
-            marked.push(SEGMENT_BREAK);
+        if (hardBreak) {
+            writer.pushBreak(ALWAYS_BREAK, hardBreak);
         }
 
-        // Push the token itself
-        marked.push(token);
+        // Large time gap, entering/leaving a low-confidence run, or a soft hint triggers a break
+        const softBreak =
+            prevToken &&
+            (getSoftBreakCause(prevToken, token, gapThresholds[idx], prevLowConfidence, lowConfidence) ??
+                getSoftHintCause(prevToken, idx));
 
-        // Punctuation at end triggers a break
-        if (isEndingWithPunctuation(token.text)) {
-            marked.push(SEGMENT_BREAK);
+        if (softBreak) {
+            pushSoftBreak(idx, softBreak);
         }
 
-        prevEnd = token.end;
+        // Push the token itself
+        writer.pushToken(token);
+        prevToken = token;
+        prevLowConfidence = lowConfidence;
+
+        closeToken(idx);
     }
 
-    return marked;
+    return writer.marked;
 };
 
 /**
@@ -97,31 +407,43 @@ export const markTokensWithDividers = (
  *
  * @param {MarkedToken[]} markedTokens - Array of tokens with segment break markers
  * @param {number} maxSecondsPerSegment - Maximum duration (in seconds) for a segment
+ * @param {BreakTrace} [trace] - Optional trace from the previous stages; breaks that start a segment, and those dropped
+ * because no word follows them, are flagged in it
  * @returns {MarkedSegment[]} Array of marked segments
  */
 export const groupMarkedTokensIntoSegments = (
     markedTokens: MarkedToken[],
     maxSecondsPerSegment: number,
+    trace?: BreakTrace,
 ): MarkedSegment[] => {
     const segments: MarkedSegment[] = [];
+    const breaks = trace ? getLiveBreaks(trace) : [];
+    let breakCount = 0;
     let currentSegment: MarkedToken[] = [];
     let segmentStart: null | number = null;
     let segmentEnd: null | number = null;
+    // Why the current segment was started and where its first break sits in the trace; the boundary is only
+    // recorded once the segment turns out to hold words.
+    let boundary: BreakExplanation['segmentBoundary'];
+    let firstBreak = 0;
 
     const flush = () => {
-        if (currentSegment.length === 0) {
-            return;
-        }
         if (segmentStart === null || segmentEnd === null) {
+            dropBreaks(breaks.slice(firstBreak, breakCount));
             return;
         }
+        if (boundary) {
+            updateBreak(breaks[firstBreak], { segmentBoundary: boundary });
+        }
         segments.push({ end: segmentEnd, start: segmentStart, tokens: currentSegment });
     };
 
-    const reset = () => {
+    const reset = (cause: BreakExplanation['segmentBoundary']) => {
         currentSegment = [];
         segmentStart = null;
         segmentEnd = null;
+        boundary = cause;
+        firstBreak = breakCount;
     };
 
     const durationExceeded = () => {
@@ -134,28 +456,28 @@ export const groupMarkedTokensIntoSegments = (
     for (let i = 0; i < markedTokens.length; i++) {
         const token = markedTokens[i];
         const next = markedTokens[i + 1];
-        const nextIsDivider = next === SEGMENT_BREAK || next === ALWAYS_BREAK;
+        const nextIsDivider = isBreakMarker(next);
 
-        if (token === ALWAYS_BREAK) {
+        if (isHardBreak(token)) {
             flush();
-            reset();
-            currentSegment = [ALWAYS_BREAK];
-            continue;
+            reset('always-break');
         }
 
-        if (token !== SEGMENT_BREAK) {
+        if (isWordToken(token)) {
             if (segmentStart === null) {
                 segmentStart = token.start;
             }
 
             segmentEnd = token.end;
+        } else {
+            breakCount++;
         }
 
         currentSegment.push(token);
 
         if (nextIsDivider && durationExceeded()) {
             flush();
-            reset();
+            reset('duration-cap');
         }
     }
 
@@ -164,29 +486,276 @@ export const groupMarkedTokensIntoSegments = (
     return segments;
 };
 
+const isWordToken = (token: MarkedToken): token is Token => !isBreakMarker(token);
+
+/**
+ * Splits marked tokens into runs that each start at an `ALWAYS_BREAK`.
+ */
+const splitAtHardBreaks = (markedTokens: MarkedToken[]): MarkedToken[][] => {
+    const runs: MarkedToken[][] = [[]];
+
+    for (const token of markedTokens) {
+        if (isHardBreak(token)) {
+            runs.push([token]);
+        } else {
+            runs.at(-1)!.push(token);
+        }
+    }
+
+    return runs;
+};
+
+const OVERFLOW_PENALTY = 100;
+const SHORT_SEGMENT_PENALTY = 10;
+const MAX_PAUSE_SECONDS = 2;
+
+/**
+ * Returns the cost of a segment: the squared unused share of `maxSecondsPerSegment`, a steep penalty for going
+ * over it, and a penalty proportional to the missing words when it has fewer than `minWordsPerSegment`.
+ */
+const getSegmentCost = (
+    first: Token,
+    last: Token,
+    wordCount: number,
+    { maxSecondsPerSegment, minWordsPerSegment }: OptimalSegmentationOptions,
+): number => {
+    const duration = last.end - first.start;
+    const fill =
+        duration <= maxSecondsPerSegment
+            ? ((maxSecondsPerSegment - duration) / maxSecondsPerSegment) ** 2
+            : OVERFLOW_PENALTY * (1 + (duration - maxSecondsPerSegment) / maxSecondsPerSegment) ** 2;
+    const shortfall = Math.max(minWordsPerSegment - wordCount, 0) / Math.max(minWordsPerSegment, 1);
+
+    return fill + SHORT_SEGMENT_PENALTY * shortfall;
+};
+
+/**
+ * Returns the cost of breaking between `prev` and `next`, from 0 for an ideal break to 1 for a poor one.
+ * Sentence punctuation counts more than clause punctuation, longer pauses count more, and a hint phrase starting
+ * at `next` (or a break-after hint phrase ending at `prev`) makes the break more attractive in proportion to its
+ * weight.
+ */
+const getBreakCost = (prev: Token, next: Token, hintWeights: Map<Token, number>): number => {
+    const punctuation = isEndingWithPunctuation(prev.text) ? 1 : /[,،:;]$/.test(prev.text) ? 0.5 : 0;
+    const pause = Math.min(Math.max(next.start - prev.end, 0), MAX_PAUSE_SECONDS) / MAX_PAUSE_SECONDS;
+    const hint = Math.min(Math.max(hintWeights.get(next) ?? 0, 0), 1);
+
+    return 1 - (0.5 * punctuation + 0.3 * pause + 0.2 * hint);
+};
+
+/**
+ * Returns, for every index `i` of the run (and its length), the number of words in `run[0..i)`.
+ */
+const countWordsBefore = (run: MarkedToken[]): number[] => {
+    const counts = [0];
+
+    for (const token of run) {
+        counts.push(counts.at(-1)! + (isWordToken(token) ? 1 : 0));
+    }
+
+    return counts;
+};
+
+/**
+ * Returns the indices where a segment may start: the start of the run, every soft break with words on both sides
+ * (the break moves to the next segment), and the end of the run.
+ */
+const getCandidateCuts = (run: MarkedToken[], wordCounts: number[]): number[] => {
+    const total = wordCounts.at(-1)!;
+    const cuts = [0];
+
+    run.forEach((token, i) => {
+        if (isSoftBreak(token) && wordCounts[i] > 0 && wordCounts[i] < total) {
+            cuts.push(i);
+        }
+    });
+
+    cuts.push(run.length);
+    return cuts;
+};
+
+const groupRunOptimally = (
+    run: MarkedToken[],
+    options: OptimalSegmentationOptions,
+    hintWeights: Map<Token, number>,
+): MarkedSegment[] => {
+    const words = run.filter(isWordToken);
+    const wordCounts = countWordsBefore(run);
+    const cuts = getCandidateCuts(run, wordCounts);
+
+    const costs = new Array<number>(cuts.length).fill(Number.POSITIVE_INFINITY);
+    const previous = new Array<number>(cuts.length).fill(0);
+    costs[0] = 0;
+
+    for (let j = 1; j < cuts.length; j++) {
+        const last = wordCounts[cuts[j]] - 1;
+        const breakCost = j < cuts.length - 1 ? getBreakCost(words[last], words[last + 1], hintWeights) : 0;
+
+        for (let i = j - 1; i >= 0; i--) {
+            const first = wordCounts[cuts[i]];
+
+            if (first > last) {
+                continue;
+            }
+
+            const cost = costs[i] + getSegmentCost(words[first], words[last], last - first + 1, options) + breakCost;
+
+            if (cost < costs[j]) {
+                costs[j] = cost;
+                previous[j] = i;
+            }
+
+            // Starting the segment any earlier can only make it longer than it already is.
+            if (words[last].end - words[first].start > 2 * options.maxSecondsPerSegment) {
+                break;
+            }
+        }
+    }
+
+    const segments: MarkedSegment[] = [];
+
+    for (let j = cuts.length - 1; j > 0; j = previous[j]) {
+        const from = cuts[previous[j]];
+        const to = cuts[j];
+        segments.unshift({
+            end: words[wordCounts[to] - 1].end,
+            start: words[wordCounts[from]].start,
+            tokens: run.slice(from, to),
+        });
+    }
+
+    return segments;
+};
+
+/**
+ * Maps every word that a break would best precede to the weight of the hint suggesting it: 1 for the start of a
+ * break hint and the word after a break-after hint, and the hint weight for the start of a soft hint.
+ */
+const getHintWeights = (words: Token[], hints: Hints): Map<Token, number> => {
+    const weights = new Map<Token, number>();
+    const normalizedTexts = words.map((t) => normalizeTokenText(t.text, hints.normalization));
+    const addWeight = (word: Token | undefined, weight: number) => {
+        if (word) {
+            weights.set(word, Math.max(weights.get(word) ?? 0, weight));
+        }
+    };
+
+    words.forEach((word, i) => {
+        if (getHintMatchLength(normalizedTexts, hints, i) > 0) {
+            addWeight(word, 1);
+        }
+
+        const breakAfterLength = hints.breakAfter
+            ? getPhraseMatchLength(normalizedTexts, hints.breakAfter, i, hints)
+            : 0;
+
+        if (breakAfterLength > 0) {
+            addWeight(words[i + breakAfterLength], 1);
+        }
+
+        addWeight(word, getSoftHintMatch(normalizedTexts, hints, i)?.weight ?? 0);
+    });
+
+    return weights;
+};
+
+/**
+ * Groups marked tokens into segments by choosing the paragraph boundaries globally rather than greedily.
+ *
+ * Every `ALWAYS_BREAK` starts a new segment exactly like `groupMarkedTokensIntoSegments`. Between them, each
+ * `SEGMENT_BREAK` is a candidate boundary, and dynamic programming picks the set of boundaries with the lowest total
+ * cost, where each segment costs more the further it is from filling `maxSecondsPerSegment` (and much more when it
+ * exceeds it) or the fewer words it has below `minWordsPerSegment`, and each boundary costs less after stronger
+ * punctuation, after a longer pause, or before a hint phrase. This avoids lopsided paragraphs where a greedy flush
+ * happens one break too late and a short fragment has to be merged back.
+ *
+ * @param {MarkedToken[]} markedTokens - Array of tokens with segment break markers
+ * @param {OptimalSegmentationOptions} options - Configuration options
+ * @param {Hints} [options.hints] - Optional hints whose phrases make a boundary right before them (or, for break-after
+ * hints, right after them) more attractive, soft hints in proportion to their weight
+ * @param {number} options.maxSecondsPerSegment - Target maximum duration (in seconds) for a segment
+ * @param {number} options.minWordsPerSegment - Minimum number of words for a segment to avoid a penalty
+ * @param {BreakTrace} [trace] - Optional trace from the previous stages; breaks that start a segment, and those dropped
+ * because no word follows them, are flagged in it
+ * @returns {MarkedSegment[]} Array of marked segments
+ */
+export const groupMarkedTokensIntoSegmentsOptimally = (
+    markedTokens: MarkedToken[],
+    options: OptimalSegmentationOptions,
+    trace?: BreakTrace,
+): MarkedSegment[] => {
+    const hintWeights = options.hints
+        ? getHintWeights(markedTokens.filter(isWordToken), options.hints)
+        : new Map<Token, number>();
+    const breaks = trace ? getLiveBreaks(trace) : [];
+    const segments: MarkedSegment[] = [];
+    let breakCount = 0;
+
+    for (const run of splitAtHardBreaks(markedTokens)) {
+        if (!run.some(isWordToken)) {
+            dropBreaks(breaks.slice(breakCount, breakCount + run.length));
+            breakCount += run.length;
+            continue;
+        }
+
+        groupRunOptimally(run, options, hintWeights).forEach((segment, i) => {
+            const first = segment.tokens[0];
+
+            if (isHardBreak(first)) {
+                updateBreak(breaks[breakCount], { segmentBoundary: 'always-break' });
+            } else if (i > 0) {
+                updateBreak(breaks[breakCount], { segmentBoundary: 'optimal' });
+            }
+
+            breakCount += segment.tokens.filter(isBreakMarker).length;
+            segments.push(segment);
+        });
+    }
+
+    return segments;
+};
+
+const getWordTokens = (segment: MarkedSegment): Token[] => segment.tokens.filter(isWordToken);
+
+const getSpeakers = (tokens: Token[]): string[] =>
+    tokens.flatMap((token) => (token.speaker === undefined ? [] : [token.speaker]));
+
 /**
  * Merges segments with fewer than the specified minimum words into the previous segment.
  * This helps avoid very short segments that might break the flow of text.
  *
  * @param {MarkedSegment[]} segments - Array of marked segments to process
  * @param {number} minWordsPerSegment - Minimum number of words required for a segment to stand alone
+ * @param {BreakTrace} [trace] - Optional trace from the previous stages; boundaries that are merged away are flagged in it
  * @returns {MarkedSegment[]} Array of merged segments
  */
 export const mergeShortSegmentsWithPrevious = (
     segments: MarkedSegment[],
     minWordsPerSegment: number,
+    trace?: BreakTrace,
 ): MarkedSegment[] => {
     const result: MarkedSegment[] = [];
+    const breaks = trace ? getLiveBreaks(trace) : [];
+    let breakCount = 0;
 
     for (const segment of segments) {
-        const wordTokens = segment.tokens.filter((t) => t !== SEGMENT_BREAK && t !== ALWAYS_BREAK);
+        const wordTokens = getWordTokens(segment);
+        const prev = result.at(-1);
+        const boundary = isBreakMarker(segment.tokens[0]) ? breaks[breakCount] : undefined;
+        breakCount += segment.tokens.length - wordTokens.length;
 
-        const isHardBoundary = segment.tokens.includes(ALWAYS_BREAK);
+        const isHardBoundary =
+            segment.tokens.some(isHardBreak) ||
+            (prev !== undefined &&
+                isSpeakerChange(getSpeakers(getWordTokens(prev)).at(-1), getSpeakers(wordTokens)[0]));
 
-        if (!isHardBoundary && wordTokens.length < minWordsPerSegment && result.length > 0) {
-            const prev = result[result.length - 1];
+        if (!isHardBoundary && wordTokens.length < minWordsPerSegment && prev) {
             prev.tokens.push(...segment.tokens);
             prev.end = segment.end;
+
+            if (boundary?.segmentBoundary) {
+                boundary.segmentBoundary = 'merged-short';
+            }
         } else {
             result.push({ ...segment });
         }
@@ -195,12 +764,8 @@ export const mergeShortSegmentsWithPrevious = (
     return result;
 };
 
-const formatMarkedSegmentToLines = (
-    segment: MarkedSegment,
-    maxSecondsPerLine: number,
-    formatTokens?: (buffer: Token) => string,
-): string[] => {
-    const lines: string[] = [];
+const splitMarkedSegmentIntoLines = (segment: MarkedSegment, maxSecondsPerLine: number): Token[][] => {
+    const lines: Token[][] = [];
     let buffer: Token[] = [];
     let bufferStart: null | number = null;
 
@@ -209,16 +774,7 @@ const formatMarkedSegmentToLines = (
             return;
         }
 
-        const text = buffer.map((t) => t.text).join(' ');
-        lines.push(
-            formatTokens
-                ? formatTokens({
-                      end: buffer.at(-1)!.end,
-                      start: buffer[0].start,
-                      text,
-                  })
-                : `${formatSecondsToTimestamp(buffer[0].start)}: ${text}`,
-        );
+        lines.push(buffer);
 
         buffer = [];
         bufferStart = null;
@@ -237,12 +793,12 @@ const formatMarkedSegmentToLines = (
     };
 
     for (const token of segment.tokens) {
-        if (token === ALWAYS_BREAK) {
+        if (isHardBreak(token)) {
             pushBufferAsLine();
             continue;
         }
 
-        if (token === SEGMENT_BREAK) {
+        if (isBreakMarker(token)) {
             if (shouldFlushOnSoftBreak()) {
                 pushBufferAsLine();
             }
@@ -259,6 +815,50 @@ const formatMarkedSegmentToLines = (
     return lines;
 };
 
+/**
+ * Returns the lowest confidence among the tokens, or `undefined` if none of them has a confidence.
+ */
+const getMinimumConfidence = (tokens: Token[]): number | undefined => {
+    const confidences = tokens.flatMap((t) => (t.confidence === undefined ? [] : [t.confidence]));
+    return confidences.length > 0 ? Math.min(...confidences) : undefined;
+};
+
+/**
+ * Returns the speaker shared by all the tokens, or `undefined` if they have no speaker or more than one.
+ */
+const getSharedSpeaker = (tokens: Token[]): string | undefined => {
+    const speaker = tokens[0]?.speaker;
+    return tokens.every((t) => t.speaker === speaker) ? speaker : undefined;
+};
+
+/**
+ * Sets the lowest confidence and the shared speaker of `tokens` on `target`, omitting whichever is unavailable.
+ */
+const withTokenSummary = <T extends Token>(target: T, tokens: Token[]): T => {
+    const confidence = getMinimumConfidence(tokens);
+    const speaker = getSharedSpeaker(tokens);
+
+    return {
+        ...target,
+        ...(confidence !== undefined && { confidence }),
+        ...(speaker !== undefined && { speaker }),
+    };
+};
+
+const formatMarkedSegmentToLines = (
+    segment: MarkedSegment,
+    maxSecondsPerLine: number,
+    formatTokens?: (buffer: Token) => string,
+): string[] => {
+    return splitMarkedSegmentIntoLines(segment, maxSecondsPerLine).map((buffer) => {
+        const text = buffer.map((t) => t.text).join(' ');
+
+        return formatTokens
+            ? formatTokens(withTokenSummary({ end: buffer.at(-1)!.end, start: buffer[0].start, text }, buffer))
+            : `${formatSecondsToTimestamp(buffer[0].start)}: ${text}`;
+    });
+};
+
 /**
  * Formats segments into a timestamped transcript with timestamps at the beginning of each line.
  * Lines are split based on segment breaks and maximum line duration.
@@ -266,7 +866,9 @@ const formatMarkedSegmentToLines = (
  * @param {MarkedSegment[]} segments - Array of marked segments to format
  * @param {number} maxSecondsPerLine - Maximum duration (in seconds) for a single line
  * @param {(buffer: Token) => string} [formatTokens] - Optional formatter that receives the buffered token range
- * and returns the formatted line. When omitted the function emits timestamp-prefixed strings.
+ * and returns the formatted line. When omitted the function emits timestamp-prefixed strings. The buffer carries the
+ * lowest `confidence` of its tokens when any token has one, so low-confidence lines can be flagged, and the `speaker`
+ * of its tokens when they share one, so lines can be prefixed with the speaker name.
  * @returns {string} Formatted transcript with timestamps
  */
 export const formatSegmentsToTimestampedTranscript = (
@@ -279,6 +881,245 @@ export const formatSegmentsToTimestampedTranscript = (
         .join('\n');
 };
 
+/**
+ * A subtitle cue with its timings rounded to whole milliseconds and its tokens wrapped onto lines.
+ */
+type SubtitleCue = {
+    end: number;
+    lines: Token[][];
+    start: number;
+    tokens: Token[];
+};
+
+/**
+ * Returns the tokens of the segment that are directly followed by a break marker.
+ */
+const getSoftBreakTokens = (segment: MarkedSegment): Set<Token> => {
+    const tokens = new Set<Token>();
+
+    segment.tokens.forEach((token, i) => {
+        const next = segment.tokens[i + 1];
+
+        if (isWordToken(token) && isBreakMarker(next)) {
+            tokens.add(token);
+        }
+    });
+
+    return tokens;
+};
+
+const splitMarkedSegmentIntoCues = (
+    segment: MarkedSegment,
+    maxSecondsPerLine: number,
+    layout?: SubtitleLayoutOptions,
+): Token[][] => {
+    const lines = splitMarkedSegmentIntoLines(segment, maxSecondsPerLine);
+
+    if (!layout) {
+        return lines;
+    }
+
+    const softBreaks = getSoftBreakTokens(segment);
+    return lines.flatMap((tokens) => splitTokensIntoCues(tokens, layout, softBreaks));
+};
+
+/**
+ * The shortest duration (in milliseconds) a cue is given when resolving an overlap would leave it with none.
+ */
+const MIN_CUE_DURATION_MS = 1;
+
+/**
+ * Extends each cue to its minimum display duration, without running into the next cue.
+ */
+const extendCuesForReading = (cues: SubtitleCue[], layout: SubtitleLayoutOptions) => {
+    cues.forEach((cue, i) => {
+        const required = cue.start + Math.round(getMinimumCueSeconds(cue.tokens, layout) * 1000);
+        const limit = cues[i + 1]?.start ?? Number.POSITIVE_INFINITY;
+
+        cue.end = Math.max(cue.end, Math.min(required, limit));
+    });
+};
+
+const buildSubtitleCues = (
+    segments: MarkedSegment[],
+    maxSecondsPerLine: number,
+    layout?: SubtitleLayoutOptions,
+): SubtitleCue[] => {
+    const cues = segments.flatMap((segment) =>
+        splitMarkedSegmentIntoCues(segment, maxSecondsPerLine, layout).map((tokens) => ({
+            end: Math.round(tokens.at(-1)!.end * 1000),
+            lines: layout ? wrapTokensIntoLines(tokens, layout) : [tokens],
+            start: Math.round(tokens[0].start * 1000),
+            tokens,
+        })),
+    );
+
+    for (let i = 1; i < cues.length; i++) {
+        const prev = cues[i - 1];
+        const current = cues[i];
+
+        if (current.start < prev.end) {
+            if (current.start > prev.start) {
+                prev.end = current.start;
+            } else {
+                // Pulling the previous cue back would invert it, so this cue moves after it instead, keeping its
+                // own duration if it would otherwise end before it starts.
+                const duration = Math.max(current.end - current.start, MIN_CUE_DURATION_MS);
+                current.start = prev.end;
+
+                if (current.end <= current.start) {
+                    current.end = current.start + duration;
+                }
+            }
+        }
+    }
+
+    if (layout) {
+        extendCuesForReading(cues, layout);
+    }
+
+    return cues;
+};
+
+const formatCueLines = (cue: SubtitleCue) => cue.lines.map((line) => line.map((t) => t.text).join(' ')).join('\n');
+
+/**
+ * Formats segments into a SubRip (SRT) subtitle file.
+ * Each cue is numbered sequentially starting at 1 and carries `HH:MM:SS,mmm` timestamps. Cues are split exactly like
+ * the lines of `formatSegmentsToTimestampedTranscript`: `ALWAYS_BREAK` always starts a new cue, and a `SEGMENT_BREAK`
+ * does so once the cue has reached `maxSecondsPerLine` and ends with punctuation.
+ *
+ * With a `layout`, each of those cues is further split at the best token boundary until it fits the character,
+ * line and duration limits, its text is wrapped onto lines, and it is kept on screen for its minimum duration and
+ * reading time as far as the gap before the next cue allows.
+ *
+ * Timings are rounded to whole milliseconds first, then any cue that would start before the previous one ends
+ * has the previous cue's end pulled back so that cues never overlap. A cue that starts at or before the previous
+ * one is moved to start when the previous one ends instead, and keeps its duration if it would otherwise have none.
+ *
+ * @param {MarkedSegment[]} segments - Marked segments (or formatted `Segment[]`) to convert into cues
+ * @param {FormatSrtOptions} options - Configuration options
+ * @param {SubtitleLayoutOptions} [options.layout] - Optional subtitle layout constraints
+ * @param {number} options.maxSecondsPerLine - Maximum duration (in seconds) for a cue before it is split on a soft break
+ * @returns {string} The SRT document, or an empty string if there are no cues
+ */
+export const formatSegmentsToSrt = (
+    segments: MarkedSegment[],
+    { layout, maxSecondsPerLine }: FormatSrtOptions,
+): string => {
+    return buildSubtitleCues(segments, maxSecondsPerLine, layout)
+        .map(
+            (cue, i) =>
+                `${i + 1}\n${formatSecondsToSrtTimestamp(cue.start / 1000)} --> ${formatSecondsToSrtTimestamp(cue.end / 1000)}\n${formatCueLines(cue)}\n`,
+        )
+        .join('\n');
+};
+
+const escapeWebVttText = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const formatWebVttCueSettings = ({ align, line, position }: WebVttCueSettings): string => {
+    const settings: string[] = [];
+
+    if (line !== undefined) {
+        settings.push(`line:${line}`);
+    }
+
+    if (position !== undefined) {
+        settings.push(`position:${typeof position === 'number' ? `${position}%` : position}`);
+    }
+
+    if (align) {
+        settings.push(`align:${align}`);
+    }
+
+    return settings.join(' ');
+};
+
+const formatWebVttCueText = ({ end, lines, start, tokens }: SubtitleCue, wordTimestamps: boolean): string => {
+    if (!wordTimestamps) {
+        return lines.map((line) => line.map((t) => escapeWebVttText(t.text)).join(' ')).join('\n');
+    }
+
+    let lastTimestamp = start;
+
+    const formatToken = (token: Token) => {
+        const text = escapeWebVttText(token.text);
+        const tokenStart = Math.round(token.start * 1000);
+
+        // Inline timestamps must be strictly inside the cue and strictly increasing.
+        if (token === tokens[0] || tokenStart <= lastTimestamp || tokenStart >= end) {
+            return text;
+        }
+
+        lastTimestamp = tokenStart;
+        return `<${formatSecondsToVttTimestamp(tokenStart / 1000)}>${text}`;
+    };
+
+    return lines.map((line) => line.map(formatToken).join(' ')).join('\n');
+};
+
+/**
+ * Formats segments into a WebVTT subtitle file suitable for HTML5 `<track>` elements.
+ * Cues are split, laid out and de-overlapped exactly like `formatSegmentsToSrt`, and each cue is preceded by an
+ * identifier.
+ *
+ * When `wordTimestamps` is enabled every word after the first is prefixed with an inline `<HH:MM:SS.mmm>` timestamp
+ * taken from its `Token.start`, which lets players highlight words karaoke-style. Timestamps that would fall outside
+ * the cue or go backwards are omitted so the output always stays valid.
+ *
+ * @param {MarkedSegment[]} segments - Marked segments (or formatted `Segment[]`) to convert into cues
+ * @param {FormatWebVttOptions} options - Configuration options
+ * @param {WebVttCueSettings} [options.cueSettings] - Optional `line`/`position`/`align` settings applied to every cue
+ * @param {(cue: Token, index: number) => string} [options.formatCueIdentifier] - Optional cue identifier formatter,
+ * defaults to the 1-based cue number
+ * @param {string} [options.header] - Optional text placed after `WEBVTT` on the first line
+ * @param {SubtitleLayoutOptions} [options.layout] - Optional subtitle layout constraints
+ * @param {number} options.maxSecondsPerLine - Maximum duration (in seconds) for a cue before it is split on a soft break
+ * @param {string[]} [options.notes] - Optional comments emitted as `NOTE` blocks before the first cue
+ * @param {boolean} [options.wordTimestamps] - Whether to emit inline word timestamps inside each cue
+ * @returns {string} The WebVTT document
+ */
+export const formatSegmentsToWebVtt = (
+    segments: MarkedSegment[],
+    {
+        cueSettings,
+        formatCueIdentifier = (_, index) => `${index + 1}`,
+        header,
+        layout,
+        maxSecondsPerLine,
+        notes = [],
+        wordTimestamps = false,
+    }: FormatWebVttOptions,
+): string => {
+    const settings = cueSettings ? formatWebVttCueSettings(cueSettings) : '';
+    const blocks = [header ? `WEBVTT ${header}` : 'WEBVTT'];
+
+    for (const note of notes) {
+        // "-->" is not allowed anywhere inside a NOTE block, and a blank line would end it early.
+        blocks.push(`NOTE ${note.replace(/-->/g, '->').replace(/\n\s*\n/g, '\n')}`);
+    }
+
+    buildSubtitleCues(segments, maxSecondsPerLine, layout).forEach((cue, i) => {
+        const timing = `${formatSecondsToVttTimestamp(cue.start / 1000)} --> ${formatSecondsToVttTimestamp(cue.end / 1000)}`;
+        const identifier = formatCueIdentifier(
+            { end: cue.end / 1000, start: cue.start / 1000, text: cue.tokens.map((t) => t.text).join(' ') },
+            i,
+        );
+
+        blocks.push(
+            [
+                identifier.replace(/\s*\n\s*/g, ' ').replace(/-->/g, '->'),
+                settings ? `${timing} ${settings}` : timing,
+                formatWebVttCueText(cue, wordTimestamps),
+            ]
+                .filter(Boolean)
+                .join('\n'),
+        );
+    });
+
+    return `${blocks.join('\n\n')}\n`;
+};
+
 /**
  * Maps marked segments into formatted segments with clean text representation.
  * Combines the tokens into properly formatted text, respecting segment breaks
@@ -286,9 +1127,16 @@ export const formatSegmentsToTimestampedTranscript = (
  *
  * @param {MarkedSegment[]} segments - Array of marked segments to format
  * @param {number} [maxSecondsPerLine] - Optional maximum duration (in seconds) for a single line
- * @returns {Segment[]} Array of formatted segments with clean text
+ * @param {(buffer: Token) => string} [formatTokens] - Optional formatter that receives each line's token range, with
+ * the shared `speaker` and lowest `confidence` of its tokens, and returns the line text (e.g. to prefix the speaker)
+ * @returns {Segment[]} Array of formatted segments with clean text, carrying the lowest token `confidence` and the
+ * shared `speaker` when available
  */
-export const mapSegmentsIntoFormattedSegments = (segments: MarkedSegment[], maxSecondsPerLine?: number): Segment[] => {
+export const mapSegmentsIntoFormattedSegments = (
+    segments: MarkedSegment[],
+    maxSecondsPerLine?: number,
+    formatTokens?: (buffer: Token) => string,
+): Segment[] => {
     return segments.map((segment) => {
         const textParts: string[] = [];
         const flattenedTokens: Token[] = [];
@@ -297,7 +1145,14 @@ export const mapSegmentsIntoFormattedSegments = (segments: MarkedSegment[], maxS
 
         const pushBufferAsLine = () => {
             if (buffer.length > 0) {
-                textParts.push(buffer.map((t) => t.text).join(' '));
+                const text = buffer.map((t) => t.text).join(' ');
+                textParts.push(
+                    formatTokens
+                        ? formatTokens(
+                              withTokenSummary({ end: buffer.at(-1)!.end, start: buffer[0].start, text }, buffer),
+                          )
+                        : text,
+                );
                 buffer = [];
                 bufferStart = null;
             }
@@ -316,12 +1171,12 @@ export const mapSegmentsIntoFormattedSegments = (segments: MarkedSegment[], maxS
         };
 
         for (const token of segment.tokens) {
-            if (token === ALWAYS_BREAK) {
+            if (isHardBreak(token)) {
                 pushBufferAsLine();
                 continue;
             }
 
-            if (token === SEGMENT_BREAK) {
+            if (isBreakMarker(token)) {
                 if (shouldFlushOnSoftBreak()) {
                     pushBufferAsLine();
                 }
@@ -337,62 +1192,173 @@ export const mapSegmentsIntoFormattedSegments = (segments: MarkedSegment[], maxS
 
         pushBufferAsLine();
 
-        return {
-            end: segment.end,
-            start: segment.start,
-            text: textParts.join('\n'),
-            tokens: flattenedTokens,
-        };
+        return withTokenSummary(
+            {
+                end: segment.end,
+                start: segment.start,
+                text: textParts.join('\n'),
+                tokens: flattenedTokens,
+            },
+            flattenedTokens,
+        );
     });
 };
 
+/**
+ * Finds the runs of consecutive low-confidence tokens so they can be surfaced to reviewers.
+ * Tokens without a `confidence` are treated as confident.
+ *
+ * @param {Token[]} tokens - The tokens to scan (e.g. the `tokens` of a formatted segment)
+ * @param {number} minConfidence - Tokens with a `confidence` below this value are considered low-confidence
+ * @returns {Token[]} One token per run with the run's time range, joined text and lowest confidence
+ *
+ * @example
+ * ```ts
+ * getLowConfidenceSpans(
+ *     [
+ *         { start: 0, end: 1, text: 'clear', confidence: 0.9 },
+ *         { start: 1, end: 2, text: 'mumbled', confidence: 0.3 },
+ *         { start: 2, end: 3, text: 'words', confidence: 0.2 },
+ *     ],
+ *     0.5,
+ * );
+ * // → [{ start: 1, end: 3, text: 'mumbled words', confidence: 0.2 }]
+ * ```
+ */
+export const getLowConfidenceSpans = (tokens: Token[], minConfidence: number): Token[] => {
+    const runs: Token[][] = [];
+    let current: Token[] = [];
+
+    for (const token of tokens) {
+        if (isLowConfidence(token, minConfidence)) {
+            current.push(token);
+        } else if (current.length > 0) {
+            runs.push(current);
+            current = [];
+        }
+    }
+
+    if (current.length > 0) {
+        runs.push(current);
+    }
+
+    return runs.map((run) => ({
+        confidence: getMinimumConfidence(run)!,
+        end: run.at(-1)!.end,
+        start: run[0].start,
+        text: run.map((t) => t.text).join(' '),
+    }));
+};
+
 /**
  * Convenience function that processes segments through all steps:
  * marking tokens with dividers, grouping into segments, and merging short segments.
  *
  * @param {Segment[]} segments - Array of input segments to process
  * @param {Object} options - Configuration options
+ * @param {AdaptiveGapThresholdOptions} [options.adaptiveGapThreshold] - Optionally derive the gap threshold from the pauses of the input
  * @param {string[]} options.fillers - Array of filler words to mark as segment breaks
  * @param {number} options.gapThreshold - Minimum time gap (in seconds) to consider a segment break
  * @param {number} options.maxSecondsPerSegment - Maximum duration (in seconds) for a segment
  * @param {number} options.minWordsPerSegment - Minimum number of words required for a segment to stand alone
+ * @param {number} [options.minConfidence] - Tokens with a `confidence` below this are isolated by soft breaks and cannot trigger hints
+ * @param {boolean} [options.structuredMarkers] - Insert structured `BreakMarker` objects describing each break instead of
+ * the `SEGMENT_BREAK`/`ALWAYS_BREAK` strings
+ * @param {'greedy' | 'optimal'} [options.segmentation] - Whether to group with `groupMarkedTokensIntoSegments` (default)
+ * or `groupMarkedTokensIntoSegmentsOptimally`
+ * @param {BreakTrace} [options.trace] - Optional trace that receives an explanation of every break and what each stage
+ * did with it
  * @returns {MarkedSegment[]} Array of processed and marked segments
  */
 export const markAndCombineSegments = (segments: Segment[], options: MarkAndCombineSegmentsOptions) => {
     const tokens = segments.flatMap((segment) => segment.tokens!);
     let markedTokens = markTokensWithDividers(tokens, {
+        ...(options.adaptiveGapThreshold && { adaptiveGapThreshold: options.adaptiveGapThreshold }),
         fillers: options.fillers,
         gapThreshold: options.gapThreshold,
         ...(options.hints && { hints: options.hints }),
+        ...(options.minConfidence !== undefined && { minConfidence: options.minConfidence }),
+        ...(options.structuredMarkers && { structuredMarkers: options.structuredMarkers }),
+        ...(options.trace && { trace: options.trace }),
     });
-    markedTokens = cleanupIsolatedTokens(markedTokens);
-    const markedSegments = groupMarkedTokensIntoSegments(markedTokens, options.maxSecondsPerSegment);
-    const combinedSegments = mergeShortSegmentsWithPrevious(markedSegments, options.minWordsPerSegment);
+    markedTokens = cleanupIsolatedTokens(markedTokens, options.trace);
+    const markedSegments =
+        options.segmentation === 'optimal'
+            ? groupMarkedTokensIntoSegmentsOptimally(
+                  markedTokens,
+                  {
+                      maxSecondsPerSegment: options.maxSecondsPerSegment,
+                      minWordsPerSegment: options.minWordsPerSegment,
+                      ...(options.hints && { hints: options.hints }),
+                  },
+                  options.trace,
+              )
+            : groupMarkedTokensIntoSegments(markedTokens, options.maxSecondsPerSegment, options.trace);
+    const combinedSegments = mergeShortSegmentsWithPrevious(markedSegments, options.minWordsPerSegment, options.trace);
 
     return combinedSegments;
 };
 
+/**
+ * Returns why the marker at `index` should be dropped by `cleanupIsolatedTokens`, or `undefined` to keep it.
+ */
+const getIsolatedBreakRemoval = (
+    markedTokens: MarkedToken[],
+    index: number,
+    last: MarkedToken | undefined,
+): BreakExplanation['removed'] => {
+    const current = markedTokens[index];
+    const next = markedTokens[index + 1];
+    const future = markedTokens[index + 2];
+
+    if (!isSoftBreak(current)) {
+        return undefined;
+    }
+
+    if (isBreakMarker(next)) {
+        // skip current break since we're placing a break anyways
+        return 'duplicate';
+    }
+
+    if (isBreakMarker(future) || !future) {
+        // skip current break since we don't want to put a word by itself
+        return 'isolated-token';
+    }
+
+    if (isSoftBreak(last)) {
+        // skip duplicate break
+        return 'duplicate';
+    }
+
+    return undefined;
+};
+
 /**
  * Cleans up marked tokens by removing unnecessary segment breaks that would
  * cause individual tokens to appear on their own lines.
  *
  * @param {MarkedToken[]} markedTokens - The array of marked tokens to clean up
+ * @param {BreakTrace} [trace] - Optional trace from `markTokensWithDividers`; removed breaks are flagged in it
  * @returns {MarkedToken[]} A new array with unnecessary breaks removed
  */
-export const cleanupIsolatedTokens = (markedTokens: MarkedToken[]): MarkedToken[] => {
+export const cleanupIsolatedTokens = (markedTokens: MarkedToken[], trace?: BreakTrace): MarkedToken[] => {
     const result: MarkedToken[] = [];
+    const breaks = trace ? getLiveBreaks(trace) : [];
+    let breakIndex = -1;
+
+    const remove = (removed: BreakExplanation['removed']) => updateBreak(breaks[breakIndex], { removed });
 
     for (let i = 0; i < markedTokens.length; i++) {
         const current = markedTokens[i];
-        const next = markedTokens[i + 1];
-        const future = markedTokens[i + 2];
-
-        if (current === SEGMENT_BREAK && (next === ALWAYS_BREAK || next === SEGMENT_BREAK)) {
-            // skip current break since we're placing a break anyways
-        } else if (current === SEGMENT_BREAK && (future === SEGMENT_BREAK || future === ALWAYS_BREAK || !future)) {
-            // skip current break since we don't want to put a word by itself
-        } else if (current === SEGMENT_BREAK && result.at(-1) === SEGMENT_BREAK) {
-            // skip duplicate break
+
+        if (!isWordToken(current)) {
+            breakIndex++;
+        }
+
+        const removal = getIsolatedBreakRemoval(markedTokens, i, result.at(-1));
+
+        if (removal) {
+            remove(removal);
         } else {
             result.push(current);
         }
@@ -410,15 +1376,20 @@ export const cleanupIsolatedTokens = (markedTokens: MarkedToken[]): MarkedToken[
  *
  * @param segment - A `Segment` object with ground truth `text` and AI-generated `tokens`
  * @param groundTruth - The ground truth text to apply to the segment's text and its tokens.
+ * @param options - How to time the interpolated words, equally by default
  * @returns A new `GroundedSegment` with the `tokens` adjusted to match the ground truth `text`
  * along with any unmatched tokens flagged.
  */
-export const updateSegmentWithGroundTruth = (segment: Segment, groundTruth: string): GroundedSegment => {
+export const updateSegmentWithGroundTruth = (
+    segment: Segment,
+    groundTruth: string,
+    options?: InterpolationOptions,
+): GroundedSegment => {
     return {
         end: segment.end,
         start: segment.start,
         text: groundTruth,
-        tokens: syncTokensWithGroundTruth(segment.tokens, groundTruth),
+        tokens: syncTokensWithGroundTruth(segment.tokens, groundTruth, options),
     };
 };
 
@@ -426,13 +1397,82 @@ export const updateSegmentWithGroundTruth = (segment: Segment, groundTruth: stri
  * Produces a segment with the ground truth replacing the text and its respective tokens.
  * @param segment The segment to replace the ground truth with.
  * @param groundTruth The human verified transcription of the segment.
+ * @param options How to time the interpolated words, equally by default.
  * @returns A segment with the ground truth applies to the segment text and its tokens.
  */
-export const applyGroundTruthToSegment = (segment: Segment, groundTruth: string): Segment => {
-    const result = updateSegmentWithGroundTruth(segment, groundTruth);
+export const applyGroundTruthToSegment = (
+    segment: Segment,
+    groundTruth: string,
+    options?: InterpolationOptions,
+): Segment => {
+    const result = updateSegmentWithGroundTruth(segment, groundTruth, options);
     return { ...result, tokens: result.tokens.filter((t) => !t.isUnknown) };
 };
 
+const splitIntoParagraphs = (document: string) =>
+    document
+        .split(/\r?\n/)
+        .map((line) => line.trim())
+        .filter(Boolean);
+
+/**
+ * Aligns a whole transcript to a single human-edited document and re-derives the segment boundaries from the
+ * editor's paragraphs.
+ *
+ * The tokens of all the segments are aligned against all the words of the document at once, so words the editor
+ * moved across a segment border keep their original timings instead of being interpolated at both edges. Each
+ * non-empty line of the document becomes one segment, timed by the first and last of its tokens. Tokens that match
+ * no word are flagged with `isUnknown` and stay with the paragraph before them.
+ *
+ * Unlike `updateSegmentWithGroundTruth`, the first and last tokens are not forced onto the first and last words, so a
+ * heading or closing paragraph the editor added does not take the timing of the speech next to it. Such words get
+ * interpolated timings, or a zero duration at the end of the transcript. Every word ends up on a token, so every
+ * paragraph has tokens as long as the segments have any.
+ *
+ * @param segments - The transcribed segments, in order
+ * @param document - The edited text, with one paragraph per line
+ * @param options - How to time the interpolated words, equally by default
+ * @returns One `GroundedSegment` per paragraph, or an empty array if the document has no text
+ */
+export const alignSegmentsWithGroundTruth = (
+    segments: Segment[],
+    document: string,
+    options?: InterpolationOptions,
+): GroundedSegment[] => {
+    const paragraphs = splitIntoParagraphs(document).map((text) => ({ text, words: tokenizeGroundTruth(text) }));
+    const tokens = syncTokensWithGroundTruthWords(
+        segments.flatMap((segment) => segment.tokens),
+        paragraphs.flatMap((paragraph) => paragraph.words),
+        { ...options, anchorEdges: false },
+    );
+    const tokensByParagraph: GroundedToken[][] = paragraphs.map(() => []);
+    let paragraphIndex = 0;
+    let wordsLeft = paragraphs[0]?.words.length;
+
+    for (const token of tokens) {
+        if (!token.isUnknown) {
+            if (wordsLeft === 0 && paragraphIndex < paragraphs.length - 1) {
+                wordsLeft = paragraphs[++paragraphIndex].words.length;
+            }
+
+            wordsLeft--;
+        }
+
+        tokensByParagraph[paragraphIndex]?.push(token);
+    }
+
+    let previousEnd = segments[0]?.start ?? 0;
+
+    return paragraphs.map(({ text }, i) => {
+        const paragraphTokens = tokensByParagraph[i];
+        const start = paragraphTokens[0]?.start ?? previousEnd;
+        const end = paragraphTokens.at(-1)?.end ?? start;
+        previousEnd = end;
+
+        return { end, start, text, tokens: paragraphTokens };
+    });
+};
+
 /**
  * Merges multiple segments into a single segment.
  *
@@ -532,6 +1572,55 @@ export const getFirstMatchingToken = (tokens: Token[], query: string): null | To
     return null;
 };
 
+/**
+ * Scans the tokens for every occurrence of every hint, to see how well a hint list covers a transcript.
+ *
+ * Each hint is matched on its own (with its tolerance, if any) at every token, so overlapping occurrences of
+ * different hints are all reported, and the hints that never matched are listed separately.
+ *
+ * @param {Token[]} tokens - The tokens of the transcript, in order
+ * @param {Hints} hints - The hints to look for, typically created with `createHints`
+ * @returns {HintMatchReport} Every match with its original phrase, token range, timestamps and surface text, the
+ * number of matches per hint, and the hints that never matched
+ */
+export const getHintMatchReport = (tokens: Token[], hints: Hints): HintMatchReport => {
+    const normalizedTexts = tokens.map((t) => normalizeTokenText(t.text, hints.normalization));
+    const matches: HintMatch[] = [];
+
+    const counts = getHintDefinitions(hints).map((hint) => {
+        const words = hint.phrase
+            .split(/\s+/)
+            .map((w) => normalizeTokenText(w, hints.normalization))
+            .filter(Boolean);
+        const tolerance = hint.tolerance ?? hints.tolerance;
+        let count = 0;
+
+        for (let i = 0; words.length > 0 && i < tokens.length; i++) {
+            const matched = tokens.slice(i, i + getWordsMatchLength(normalizedTexts, words, i, tolerance));
+
+            if (matched.length > 0) {
+                matches.push({
+                    end: matched.at(-1)!.end,
+                    endIndex: i + matched.length - 1,
+                    hint,
+                    start: matched[0].start,
+                    startIndex: i,
+                    text: matched.map((t) => t.text).join(' '),
+                });
+                count++;
+            }
+        }
+
+        return { count, hint };
+    });
+
+    return {
+        counts,
+        matches: matches.sort((a, b) => a.startIndex - b.startIndex),
+        unmatched: counts.filter(({ count }) => count === 0).map(({ hint }) => hint),
+    };
+};
+
 /**
  * Finds and returns the first token in a segment whose character‐range fully contains
  * the given [selectionStart, selectionEnd) range.
@@ -1,4 +1,139 @@
-import type { AlwaysBreakMarker, SegmentBreakMarker } from './utils/constants';
+import type { AnyBreakMarker } from './utils/markers';
+
+/**
+ * Explains why a break marker was inserted by `markTokensWithDividers` and what the later stages of the pipeline
+ * did with it. Collected in a `BreakTrace` when one is passed to the pipeline functions.
+ */
+export type BreakExplanation = {
+    /**
+     * Human-readable detail, such as the filler word, the hint phrase or the length of the gap.
+     */
+    detail?: string;
+
+    /**
+     * The marker that was inserted.
+     */
+    marker: AnyBreakMarker;
+
+    /**
+     * The first token after the break, if any.
+     */
+    next?: Token;
+
+    /**
+     * The last token before the break, if any.
+     */
+    previous?: Token;
+
+    /**
+     * What caused the break.
+     */
+    reason: 'filler' | 'gap' | 'hint' | 'low-confidence' | 'punctuation' | 'speaker';
+
+    /**
+     * Set if a stage dropped the break: `duplicate` when `cleanupIsolatedTokens` found another break already placed
+     * there, `isolated-token` when it would have left a single word on its own, and `empty-segment` when the segment
+     * grouping found no word after it before the next hard break or the end of the transcript.
+     */
+    removed?: 'duplicate' | 'empty-segment' | 'isolated-token';
+
+    /**
+     * Set if the break started a segment in `groupMarkedTokensIntoSegments` or
+     * `groupMarkedTokensIntoSegmentsOptimally`: `always-break` for a hard break, `duration-cap` when the segment before
+     * it had reached `maxSecondsPerSegment`, `optimal` when the optimal segmentation chose it, and `merged-short` when
+     * it started a segment but `mergeShortSegmentsWithPrevious` merged the short segment after it back into the
+     * previous one.
+     */
+    segmentBoundary?: 'always-break' | 'duration-cap' | 'merged-short' | 'optimal';
+};
+
+/**
+ * Collects an explanation for every break inserted by the marking pipeline, in the order the markers appear.
+ */
+export type BreakTrace = BreakExplanation[];
+
+/**
+ * Options for converting marked segments into SubRip (SRT) cues.
+ */
+export type FormatSrtOptions = {
+    /**
+     * Optional subtitle layout constraints. When set, cues are further split to fit them and wrapped onto lines.
+     */
+    layout?: SubtitleLayoutOptions;
+
+    /**
+     * Maximum duration (in seconds) of a cue before it is split at the next punctuated soft break.
+     */
+    maxSecondsPerLine: number;
+};
+
+/**
+ * Options for converting marked segments into WebVTT cues.
+ */
+export type FormatWebVttOptions = FormatSrtOptions & {
+    /**
+     * Cue settings appended to every cue timing line.
+     */
+    cueSettings?: WebVttCueSettings;
+
+    /**
+     * Produces the identifier line of each cue. Defaults to the 1-based cue number.
+     */
+    formatCueIdentifier?: (cue: Token, index: number) => string;
+
+    /**
+     * Optional text placed after `WEBVTT` on the header line.
+     */
+    header?: string;
+
+    /**
+     * Comments emitted as `NOTE` blocks between the header and the first cue. Blank lines inside a comment are
+     * collapsed so that each comment stays a single block.
+     */
+    notes?: string[];
+
+    /**
+     * If true, every word after the first is prefixed with an inline timestamp for karaoke-style highlighting.
+     */
+    wordTimestamps?: boolean;
+};
+
+/**
+ * Options for deriving the gap threshold from the distribution of pauses between tokens.
+ */
+export type AdaptiveGapThresholdOptions = {
+    /**
+     * Upper bound for the derived threshold (in seconds).
+     */
+    maxThreshold?: number;
+
+    /**
+     * `percentile` uses the `percentile`-th pause as the threshold; `cluster` splits the pauses into short
+     * intra-sentence and long inter-sentence pauses and uses the boundary between the two groups.
+     */
+    method: 'cluster' | 'percentile';
+
+    /**
+     * Minimum number of pauses needed to derive a threshold. Defaults to 8.
+     */
+    minPauses?: number;
+
+    /**
+     * Lower bound for the derived threshold (in seconds).
+     */
+    minThreshold?: number;
+
+    /**
+     * Percentile (0–100) used by the `percentile` method. Defaults to 90.
+     */
+    percentile?: number;
+
+    /**
+     * If set, each threshold is derived from this many pauses around it rather than from the whole input,
+     * so it follows changes in the pace of speech.
+     */
+    windowSize?: number;
+};
 
 /**
  * Represents a segment that was updated with the ground truth values.
@@ -15,6 +150,19 @@ export type GroundedToken = Token & {
     isUnknown?: boolean;
 };
 
+/**
+ * How time is divided between words whose timing has to be estimated.
+ * - `equal`: every word gets the same duration
+ * - `characters`: durations follow the number of letters, ignoring diacritics and punctuation
+ * - `syllables`: durations follow an estimate of the syllables, for Arabic and English
+ */
+export type TimingInterpolation = 'characters' | 'equal' | 'syllables';
+
+export type InterpolationOptions = {
+    /** How to time estimated and inserted words. Defaults to `equal`. */
+    interpolation?: TimingInterpolation;
+};
+
 export type HintMap = Record<string, string[][]>;
 
 export type ArabicNormalizationOptions = {
@@ -35,9 +183,194 @@ export type GenerateHintsOptions = {
     topK?: number;
 };
 
+/**
+ * How loosely a hint phrase may match the tokens, to survive the spelling mistakes and insertions of ASR output.
+ * Exact matching (after normalization) is used when no tolerance is given.
+ */
+export type HintTolerance = {
+    /**
+     * Treat ة and ه as the same letter and ignore a leading ال, two confusions common in Arabic ASR.
+     */
+    arabicVariants?: boolean;
+
+    /**
+     * Maximum edit distance (insertions, deletions and substitutions of letters) between a hint word and a token.
+     * Words shorter than three letters must always match exactly.
+     */
+    maxEditDistance?: number;
+
+    /**
+     * Maximum number of extra tokens, such as a filler, that may appear between the words of the phrase.
+     */
+    maxInsertedTokens?: number;
+
+    /**
+     * Maximum number of words of the phrase, other than the first, that may be missing from the tokens.
+     */
+    maxMissingWords?: number;
+};
+
+/**
+ * Options accepted by `createHints` in place of the first hint: normalization overrides plus a default tolerance.
+ */
+export type CreateHintsOptions = ArabicNormalizationOptions & {
+    /**
+     * Tolerance applied to every hint that does not specify its own.
+     */
+    tolerance?: HintTolerance;
+};
+
+/**
+ * A hint phrase with its behaviour, accepted by `createHints` alongside plain strings (which are `break` hints).
+ */
+export type HintDefinition = {
+    /**
+     * The phrase to match, normalized like any other hint.
+     */
+    phrase: string;
+
+    /**
+     * Where a `break` hint places its break: `before` the phrase (the default) so that it opens a paragraph, or
+     * `after` it so that closing formulas end one.
+     */
+    position?: 'after' | 'before';
+
+    /**
+     * Where the hint comes from, e.g. `curated`, `mined` or the name of a lecture series. Kept when hints are
+     * serialized, ignored when matching.
+     */
+    source?: string;
+
+    /**
+     * Tolerance for this phrase, overriding the default tolerance of the hints.
+     */
+    tolerance?: HintTolerance;
+
+    /**
+     * `break` (the default) forces a break at the phrase, `protect` forbids any soft break inside it so that
+     * names, citations and fixed formulas are never split across segments or at line breaks (the subtitle `layout`
+     * cue and line splitting does not know about them), and `soft` only suggests a break before the phrase: it
+     * inserts a candidate `SEGMENT_BREAK` that is subject to the duration rules.
+     */
+    type?: 'break' | 'protect' | 'soft';
+
+    /**
+     * How strongly a `soft` hint favours a break, from 0 to 1 where 1 is as attractive as a `break` hint.
+     * `markTokensWithDividers` breaks before the phrase once the pause before it reaches `1 - weight` of the gap
+     * threshold, so a weight of 1 always breaks and lighter hints need longer pauses, and `segmentation: 'optimal'`
+     * weighs it against the other break costs. Defaults to `DEFAULT_SOFT_HINT_WEIGHT`.
+     */
+    weight?: number;
+};
+
 export type Hints = {
+    /**
+     * Phrases that force a break right after them.
+     */
+    breakAfter?: HintMap;
+    /**
+     * The hints exactly as they were passed to `createHints`, so the original phrases survive serialization.
+     */
+    definitions?: HintDefinition[];
     map: HintMap;
+    /**
+     * Free-form information about the hint set, such as the channel or speaker it was curated for.
+     */
+    metadata?: Record<string, unknown>;
+    normalization: Required<ArabicNormalizationOptions>;
+    /**
+     * Phrases that must never be split: soft breaks that would fall inside them are moved after the phrase.
+     */
+    protectedPhrases?: HintMap;
+    /**
+     * Phrases that suggest, but do not force, a break before them.
+     */
+    softHints?: HintMap;
+    /**
+     * The weight of each soft hint, keyed by its normalized phrase (words joined by a space).
+     */
+    softHintWeights?: Record<string, number>;
+    /**
+     * Default tolerance of every hint phrase.
+     */
+    tolerance?: HintTolerance;
+    /**
+     * Tolerances of individual hint phrases, keyed by their normalized phrase (words joined by a space). A phrase has
+     * the same tolerance in every category it is listed in.
+     */
+    tolerances?: Record<string, HintTolerance>;
+};
+
+/**
+ * The versioned JSON representation of a `Hints` object produced by `serializeHints`.
+ */
+export type SerializedHints = {
+    /**
+     * The hint definitions, with their original (not normalized) phrases.
+     */
+    hints: HintDefinition[];
+    metadata?: Record<string, unknown>;
     normalization: Required<ArabicNormalizationOptions>;
+    tolerance?: HintTolerance;
+    /**
+     * The version of the format, bumped whenever it changes incompatibly.
+     */
+    version: 1;
+};
+
+/**
+ * One occurrence of a hint phrase in a transcript, reported by `getHintMatchReport`.
+ */
+export type HintMatch = {
+    /**
+     * End time (in seconds) of the last matched token.
+     */
+    end: number;
+
+    /**
+     * Index of the last matched token.
+     */
+    endIndex: number;
+
+    /**
+     * The hint that matched, with its original phrase.
+     */
+    hint: HintDefinition;
+
+    /**
+     * Start time (in seconds) of the first matched token.
+     */
+    start: number;
+
+    /**
+     * Index of the first matched token.
+     */
+    startIndex: number;
+
+    /**
+     * The matched tokens as they appear in the transcript.
+     */
+    text: string;
+};
+
+/**
+ * Coverage of a hint set over a transcript, returned by `getHintMatchReport`.
+ */
+export type HintMatchReport = {
+    /**
+     * How many times each hint matched, in the order of the hint definitions.
+     */
+    counts: { count: number; hint: HintDefinition }[];
+
+    /**
+     * Every match, in transcript order.
+     */
+    matches: HintMatch[];
+
+    /**
+     * The hints that never matched.
+     */
+    unmatched: HintDefinition[];
 };
 
 export type GeneratedHint = {
@@ -71,20 +404,67 @@ export type MarkedSegment = {
 };
 
 /**
- * Represents either a token or a segment break marker.
+ * Represents either a token or a segment break marker, given either as one of the string constants or as a
+ * structured `BreakMarker`.
  * Used during the processing of text to identify natural break points.
  */
-export type MarkedToken = Token | AlwaysBreakMarker | SegmentBreakMarker;
+export type MarkedToken = Token | AnyBreakMarker;
 
 export type MarkTokensWithDividersOptions = {
+    /**
+     * Derives the gap threshold from the pauses of the input instead of using `gapThreshold` everywhere.
+     * `gapThreshold` is still used wherever there are too few pauses to derive one.
+     */
+    adaptiveGapThreshold?: AdaptiveGapThresholdOptions;
     fillers?: string[];
     gapThreshold: number;
     hints?: Hints;
+    /**
+     * Tokens whose `confidence` is below this value are considered low-confidence: a soft break is placed
+     * wherever a run of low-confidence tokens begins or ends, and hints matching them do not force a break.
+     */
+    minConfidence?: number;
+    /**
+     * If true, structured `BreakMarker` objects describing the kind and source of each break are inserted instead of
+     * the `SEGMENT_BREAK`/`ALWAYS_BREAK` string constants.
+     */
+    structuredMarkers?: boolean;
+    /**
+     * Opt-in explain mode: when set, an explanation of every inserted break is appended to this trace, and the
+     * later stages record what they did with each break.
+     */
+    trace?: BreakTrace;
 };
 
 export type MarkAndCombineSegmentsOptions = MarkTokensWithDividersOptions & {
     maxSecondsPerSegment: number;
     minWordsPerSegment: number;
+    /**
+     * How paragraph boundaries are chosen: `greedy` (the default) flushes a segment at the first break once it exceeds
+     * `maxSecondsPerSegment`, while `optimal` uses `groupMarkedTokensIntoSegmentsOptimally`.
+     */
+    segmentation?: 'greedy' | 'optimal';
+};
+
+/**
+ * Options for choosing paragraph boundaries globally with `groupMarkedTokensIntoSegmentsOptimally`.
+ */
+export type OptimalSegmentationOptions = {
+    /**
+     * Hints whose phrase starts right after a candidate break (or, for break-after hints, ends right before it) make
+     * that break more attractive.
+     */
+    hints?: Hints;
+
+    /**
+     * Target maximum duration (in seconds) of a segment. Longer segments are heavily penalized.
+     */
+    maxSecondsPerSegment: number;
+
+    /**
+     * Segments with fewer words than this are penalized.
+     */
+    minWordsPerSegment: number;
 };
 
 /**
@@ -103,11 +483,22 @@ export type Segment = Token & {
  * This is the basic unit of transcribed text.
  */
 export type Token = {
+    /**
+     * Optional recognition confidence between 0 and 1, as reported by the ASR engine.
+     */
+    confidence?: number;
+
     /**
      * End time in seconds.
      */
     end: number;
 
+    /**
+     * Optional label of the person speaking, e.g. from the ASR engine's diarization.
+     * A change of speaker between labelled tokens is always treated as a hard boundary; unlabelled tokens never are.
+     */
+    speaker?: string;
+
     /**
      * Start time in seconds.
      */
@@ -117,3 +508,68 @@ export type Token = {
      */
     text: string;
 };
+
+/**
+ * WebVTT cue settings that control where and how a cue is rendered by the player.
+ */
+export type WebVttCueSettings = {
+    /**
+     * Text alignment within the cue box.
+     */
+    align?: 'center' | 'end' | 'left' | 'right' | 'start';
+
+    /**
+     * Line position, either a line number (e.g. `-1` for the bottom line) or a percentage string (e.g. `"90%"`).
+     */
+    line?: number | string;
+
+    /**
+     * Horizontal position of the cue box. Numbers are treated as percentages.
+     */
+    position?: number | string;
+};
+
+/**
+ * Layout constraints for subtitle cues, as typically required by broadcast style guides.
+ */
+export type SubtitleLayoutOptions = {
+    /**
+     * Language of the cues, used to pick their list from `lineEndStopWords`. When omitted, each cue uses `ar` if it
+     * contains Arabic script and `en` otherwise.
+     */
+    language?: string;
+
+    /**
+     * Words a line should not end with, such as articles, prepositions and conjunctions, compared case-insensitively
+     * and ignoring diacritics. Either a single list used for every cue, or lists keyed by language code from which
+     * each cue uses the one for its `language`. Defaults to `DEFAULT_LINE_END_STOP_WORDS`.
+     */
+    lineEndStopWords?: Record<string, string[]> | string[];
+
+    /**
+     * Maximum number of characters on a single line. A single token longer than this gets a line of its own.
+     */
+    maxCharsPerLine: number;
+
+    /**
+     * Maximum reading speed in characters per second. Cues are kept on screen long enough to be read at this speed
+     * when the gap before the next cue allows it, and never hold more text than can be read within `maxCueSeconds`.
+     */
+    maxCharsPerSecond?: number;
+
+    /**
+     * Maximum duration (in seconds) of a cue.
+     */
+    maxCueSeconds?: number;
+
+    /**
+     * Maximum number of lines in a cue. Defaults to 2. Text that needs more than one line is wrapped so the line
+     * lengths are balanced, avoiding line ends on `lineEndStopWords` and line starts on punctuation.
+     */
+    maxLinesPerCue?: number;
+
+    /**
+     * Minimum duration (in seconds) of a cue. Short cues are extended into the gap before the next cue.
+     */
+    minCueSeconds?: number;
+};
@@ -9,3 +9,8 @@ export type SegmentBreakMarker = typeof SEGMENT_BREAK;
  */
 export const ALWAYS_BREAK = 'ALWAYS_BREAK';
 export type AlwaysBreakMarker = typeof ALWAYS_BREAK;
+
+/**
+ * Weight of a soft hint created without an explicit `weight`. A break hint counts as weight 1.
+ */
+export const DEFAULT_SOFT_HINT_WEIGHT = 0.5;
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'bun:test';
+
+import type { Token } from '../types';
+
+import { computeGapThreshold, computeGapThresholds, getPauses } from './gaps';
+
+const fromPauses = (pauses: number[]): Token[] => {
+    let start = 0;
+
+    return [0, ...pauses].map((pause, i) => {
+        start += pause;
+        const token = { end: start + 0.3, start, text: `w${i}` };
+        start = token.end;
+        return token;
+    });
+};
+
+describe('gaps', () => {
+    describe('getPauses', () => {
+        it('should return the silence between consecutive tokens, never negative', () => {
+            const tokens: Token[] = [
+                { end: 1, start: 0, text: 'a' },
+                { end: 2, start: 1.5, text: 'b' },
+                { end: 3, start: 1.9, text: 'c' },
+            ];
+
+            expect(getPauses(tokens)).toEqual([0.5, 0]);
+            expect(getPauses([])).toEqual([]);
+        });
+    });
+
+    describe('computeGapThreshold', () => {
+        const pauses = [0.1, 0.2, 0.15, 0.1, 1.2, 0.2, 0.1, 1.5, 0.15, 0.2];
+
+        it('should use the requested percentile of the pauses', () => {
+            expect(computeGapThreshold([0, 1, 2, 3, 4], { method: 'percentile', minPauses: 1, percentile: 50 })).toBe(
+                2,
+            );
+            expect(
+                computeGapThreshold([0, 1, 2, 3, 4], { method: 'percentile', minPauses: 1, percentile: 90 }),
+            ).toBeCloseTo(3.6);
+        });
+
+        it('should split short and long pauses into two clusters', () => {
+            expect(computeGapThreshold(pauses, { method: 'cluster' })).toBeCloseTo(0.7);
+        });
+
+        it('should clamp the threshold and require enough pauses', () => {
+            expect(computeGapThreshold(pauses, { maxThreshold: 0.5, method: 'cluster' })).toBe(0.5);
+            expect(computeGapThreshold([0.1, 0.1], { method: 'cluster', minPauses: 1, minThreshold: 0.3 })).toBe(0.3);
+            expect(computeGapThreshold(pauses.slice(0, 3), { method: 'cluster' })).toBeUndefined();
+        });
+    });
+
+    describe('computeGapThresholds', () => {
+        it('should use one threshold for the whole input without a window', () => {
+            const tokens = fromPauses([0.1, 0.1, 1, 0.1, 0.1, 1, 0.1, 0.1]);
+            const thresholds = computeGapThresholds(tokens, 5, { method: 'cluster' });
+
+            expect(thresholds).toHaveLength(tokens.length);
+            for (const threshold of thresholds) {
+                expect(threshold).toBeCloseTo(0.55);
+            }
+        });
+
+        it('should fall back when there are too few pauses', () => {
+            expect(computeGapThresholds(fromPauses([0.1, 2]), 5, { method: 'cluster' })).toEqual([5, 5, 5]);
+        });
+
+        it('should follow a change of pace with a sliding window', () => {
+            const fast = [0.05, 0.05, 0.3, 0.05, 0.05, 0.3, 0.05, 0.05, 0.3];
+            const slow = [0.5, 0.5, 2, 0.5, 0.5, 2, 0.5, 0.5, 2];
+            const thresholds = computeGapThresholds(fromPauses([...fast, ...slow]), 5, {
+                method: 'cluster',
+                minPauses: 6,
+                windowSize: 6,
+            });
+
+            expect(thresholds[2]).toBeCloseTo(0.175);
+            expect(thresholds.at(-1)).toBeCloseTo(1.25);
+        });
+    });
+});
@@ -0,0 +1,118 @@
+import type { AdaptiveGapThresholdOptions, Token } from '../types';
+
+const DEFAULT_MIN_PAUSES = 8;
+const DEFAULT_PERCENTILE = 90;
+
+/**
+ * Returns the pauses (in seconds) between consecutive tokens; `pauses[i]` is the silence before `tokens[i + 1]`.
+ * Overlapping tokens yield a pause of 0.
+ *
+ * @param {Token[]} tokens - The tokens in chronological order
+ * @returns {number[]} The pauses between consecutive tokens
+ */
+export const getPauses = (tokens: Token[]): number[] =>
+    tokens.slice(1).map((token, i) => Math.max(token.start - tokens[i].end, 0));
+
+const getPercentile = (sorted: number[], percentile: number): number => {
+    const position = (Math.min(Math.max(percentile, 0), 100) / 100) * (sorted.length - 1);
+    const lower = Math.floor(position);
+    const upper = Math.ceil(position);
+
+    return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+/**
+ * Splits sorted pauses into a short (intra-sentence) and a long (inter-sentence) cluster with Otsu's method,
+ * which maximizes the variance between the two clusters, and returns the midpoint between them.
+ */
+const getClusterBoundary = (sorted: number[]): number => {
+    const total = sorted.reduce((sum, pause) => sum + pause, 0);
+    let lowerSum = 0;
+    let bestVariance = -1;
+    let boundary = sorted.at(-1)!;
+
+    for (let k = 1; k < sorted.length; k++) {
+        lowerSum += sorted[k - 1];
+
+        if (sorted[k] === sorted[k - 1]) {
+            continue;
+        }
+
+        const lowerMean = lowerSum / k;
+        const upperMean = (total - lowerSum) / (sorted.length - k);
+        const variance = k * (sorted.length - k) * (upperMean - lowerMean) ** 2;
+
+        if (variance > bestVariance) {
+            bestVariance = variance;
+            boundary = (sorted[k - 1] + sorted[k]) / 2;
+        }
+    }
+
+    return boundary;
+};
+
+/**
+ * Derives a gap threshold from a distribution of pauses.
+ *
+ * With the `percentile` method the threshold is the given percentile of the pauses, so only the longest pauses
+ * break. With the `cluster` method the pauses are split into short pauses within sentences and long pauses between
+ * them, and the threshold sits between the two clusters. The result is clamped to `minThreshold`/`maxThreshold`.
+ *
+ * @param {number[]} pauses - The pauses (in seconds) to derive the threshold from
+ * @param {AdaptiveGapThresholdOptions} options - How to derive the threshold
+ * @returns {number | undefined} The threshold, or `undefined` if there are fewer than `minPauses` pauses
+ */
+export const computeGapThreshold = (
+    pauses: number[],
+    {
+        maxThreshold = Number.POSITIVE_INFINITY,
+        method,
+        minPauses = DEFAULT_MIN_PAUSES,
+        minThreshold = 0,
+        percentile = DEFAULT_PERCENTILE,
+    }: AdaptiveGapThresholdOptions,
+): number | undefined => {
+    if (pauses.length === 0 || pauses.length < minPauses) {
+        return undefined;
+    }
+
+    const sorted = [...pauses].sort((a, b) => a - b);
+    const threshold = method === 'cluster' ? getClusterBoundary(sorted) : getPercentile(sorted, percentile);
+
+    return Math.min(Math.max(threshold, minThreshold), maxThreshold);
+};
+
+/**
+ * Computes the gap threshold that applies to the pause before each token.
+ *
+ * Without a `windowSize` a single threshold is derived from all the pauses of the input. With a `windowSize`, the
+ * threshold for each pause is derived from the `windowSize` pauses centred on it (or the first or last `windowSize`
+ * pauses near the edges), so it adapts when the pace of speech changes. Wherever there are too few pauses to derive
+ * a threshold, `fallback` is used.
+ *
+ * @param {Token[]} tokens - The tokens in chronological order
+ * @param {number} fallback - The threshold to use when it cannot be derived
+ * @param {AdaptiveGapThresholdOptions} options - How to derive the thresholds
+ * @returns {number[]} The threshold for the pause before each token (the first entry applies to no pause)
+ */
+export const computeGapThresholds = (
+    tokens: Token[],
+    fallback: number,
+    options: AdaptiveGapThresholdOptions,
+): number[] => {
+    const pauses = getPauses(tokens);
+    const { windowSize } = options;
+
+    if (!windowSize) {
+        const threshold = computeGapThreshold(pauses, options) ?? fallback;
+        return tokens.map(() => threshold);
+    }
+
+    const half = Math.floor(windowSize / 2);
+
+    return tokens.map((_, i) => {
+        // Keep the window full at the edges of the input.
+        const from = Math.min(Math.max(i - 1 - half, 0), Math.max(pauses.length - windowSize, 0));
+        return computeGapThreshold(pauses.slice(from, from + windowSize), options) ?? fallback;
+    });
+};
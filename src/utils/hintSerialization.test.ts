@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'bun:test';
+
+import type { ArabicNormalizationOptions, Hints } from '../types';
+
+import { deserializeHints, HINTS_FORMAT_VERSION, HINTS_JSON_SCHEMA, serializeHints } from './hintSerialization';
+import { createHints } from './textUtils';
+
+describe('hintSerialization', () => {
+    describe('serializeHints', () => {
+        it('should keep the original phrases, categories, sources and options', () => {
+            const hints = createHints(
+                { normalizeAlef: false, tolerance: { arabicVariants: true } },
+                'إلى اللقاء',
+                { phrase: 'والله أعلم', position: 'after', source: 'curated' },
+                { phrase: 'صلى الله عليه وسلم', type: 'protect' },
+                { phrase: 'on the other hand', source: 'mined', type: 'soft', weight: 0.3 },
+            );
+
+            expect(JSON.parse(serializeHints({ ...hints, metadata: { channel: 'tafsir' } }))).toEqual({
+                hints: [
+                    { phrase: 'إلى اللقاء' },
+                    { phrase: 'والله أعلم', position: 'after', source: 'curated' },
+                    { phrase: 'صلى الله عليه وسلم', type: 'protect' },
+                    { phrase: 'on the other hand', source: 'mined', type: 'soft', weight: 0.3 },
+                ],
+                metadata: { channel: 'tafsir' },
+                normalization: { normalizeAlef: false, normalizeHamza: false, normalizeYa: true, removeTatweel: true },
+                tolerance: { arabicVariants: true },
+                version: HINTS_FORMAT_VERSION,
+            });
+        });
+
+        it('should fall back to the normalized phrases of hints built by hand', () => {
+            const hints: Hints = {
+                breakAfter: { that: [['that', 'is', 'all']] },
+                map: { next: [['next', 'topic']] },
+                normalization: {} as Required<ArabicNormalizationOptions>,
+                softHints: { so: [['so']] },
+                softHintWeights: { so: 0.2 },
+                tolerances: { 'next topic': { maxEditDistance: 1 } },
+            };
+
+            expect(JSON.parse(serializeHints(hints)).hints).toEqual([
+                { phrase: 'next topic', tolerance: { maxEditDistance: 1 } },
+                { phrase: 'that is all', position: 'after' },
+                { phrase: 'so', type: 'soft', weight: 0.2 },
+            ]);
+        });
+    });
+
+    describe('deserializeHints', () => {
+        it('should rebuild the same hints from their serialized form', () => {
+            const hints = {
+                ...createHints(
+                    { normalizeYa: false },
+                    'السؤال التالي',
+                    { phrase: 'والله أعلم', position: 'after' },
+                    { phrase: 'moving on', tolerance: { maxInsertedTokens: 1 }, type: 'soft' },
+                ),
+                metadata: { speaker: 'A' },
+            };
+
+            expect(deserializeHints(serializeHints(hints))).toEqual(hints);
+            expect(deserializeHints(JSON.parse(serializeHints(hints)))).toEqual(hints);
+        });
+
+        it('should reject unsupported versions and malformed hints', () => {
+            const serialized = JSON.parse(serializeHints(createHints('next topic')));
+
+            expect(() => deserializeHints({ ...serialized, version: 2 })).toThrow(
+                'Unsupported hints format version: 2',
+            );
+            expect(() => deserializeHints({ ...serialized, hints: [{ text: 'next topic' }] })).toThrow('Invalid hints');
+        });
+    });
+
+    describe('HINTS_JSON_SCHEMA', () => {
+        it('should require the fields written by serializeHints', () => {
+            const serialized = JSON.parse(serializeHints(createHints('next topic')));
+
+            expect(HINTS_JSON_SCHEMA.required.every((field) => field in serialized)).toBeTrue();
+            expect(Object.keys(serialized).every((field) => field in HINTS_JSON_SCHEMA.properties)).toBeTrue();
+        });
+    });
+});
@@ -0,0 +1,142 @@
+import type { HintDefinition, HintMap, Hints, SerializedHints } from '../types';
+
+import { createHints } from './textUtils';
+
+/**
+ * The version written by `serializeHints` and the only one `deserializeHints` reads.
+ */
+export const HINTS_FORMAT_VERSION = 1;
+
+const toleranceSchema = {
+    additionalProperties: false,
+    properties: {
+        arabicVariants: { type: 'boolean' },
+        maxEditDistance: { minimum: 0, type: 'integer' },
+        maxInsertedTokens: { minimum: 0, type: 'integer' },
+        maxMissingWords: { minimum: 0, type: 'integer' },
+    },
+    type: 'object',
+};
+
+/**
+ * JSON schema (draft 2020-12) of the format produced by `serializeHints`, for validating stored hint sets outside
+ * of this library.
+ */
+export const HINTS_JSON_SCHEMA = {
+    $schema: 'https://json-schema.org/draft/2020-12/schema',
+    additionalProperties: false,
+    properties: {
+        hints: {
+            items: {
+                additionalProperties: false,
+                properties: {
+                    phrase: { minLength: 1, type: 'string' },
+                    position: { enum: ['after', 'before'] },
+                    source: { type: 'string' },
+                    tolerance: toleranceSchema,
+                    type: { enum: ['break', 'protect', 'soft'] },
+                    weight: { maximum: 1, minimum: 0, type: 'number' },
+                },
+                required: ['phrase'],
+                type: 'object',
+            },
+            type: 'array',
+        },
+        metadata: { type: 'object' },
+        normalization: {
+            additionalProperties: false,
+            properties: {
+                normalizeAlef: { type: 'boolean' },
+                normalizeHamza: { type: 'boolean' },
+                normalizeYa: { type: 'boolean' },
+                removeTatweel: { type: 'boolean' },
+            },
+            required: ['normalizeAlef', 'normalizeHamza', 'normalizeYa', 'removeTatweel'],
+            type: 'object',
+        },
+        tolerance: toleranceSchema,
+        version: { const: HINTS_FORMAT_VERSION },
+    },
+    required: ['hints', 'normalization', 'version'],
+    title: 'paragrafs hints',
+    type: 'object',
+} as const;
+
+const toDefinitions = (map: HintMap | undefined, toDefinition: (phrase: string) => HintDefinition) =>
+    Object.values(map ?? {}).flatMap((phrases) => phrases.map((words) => toDefinition(words.join(' '))));
+
+/**
+ * Returns the definitions of `hints`. Hints built without `createHints` have no record of their original phrases,
+ * so their normalized phrases are used instead.
+ *
+ * @param {Hints} hints - The hints to list
+ * @returns {HintDefinition[]} One definition per hint phrase
+ */
+export const getHintDefinitions = (hints: Hints): HintDefinition[] => {
+    if (hints.definitions) {
+        return hints.definitions;
+    }
+
+    const withTolerance = (definition: HintDefinition): HintDefinition => {
+        const tolerance = hints.tolerances?.[definition.phrase];
+        return tolerance ? { ...definition, tolerance } : definition;
+    };
+
+    return [
+        ...toDefinitions(hints.map, (phrase) => ({ phrase })),
+        ...toDefinitions(hints.breakAfter, (phrase) => ({ phrase, position: 'after' })),
+        ...toDefinitions(hints.protectedPhrases, (phrase) => ({ phrase, type: 'protect' })),
+        ...toDefinitions(hints.softHints, (phrase) => ({
+            phrase,
+            type: 'soft',
+            ...(hints.softHintWeights?.[phrase] !== undefined && { weight: hints.softHintWeights[phrase] }),
+        })),
+    ].map(withTolerance);
+};
+
+/**
+ * Serializes hints into a versioned JSON string that records the normalization options, the default tolerance,
+ * the metadata and every hint with its original phrase, category and source, so that curated hint sets can be
+ * stored and shared.
+ *
+ * @param {Hints} hints - The hints to serialize, typically created with `createHints`
+ * @returns {string} The JSON representation, described by `HINTS_JSON_SCHEMA`
+ */
+export const serializeHints = (hints: Hints): string => {
+    const serialized: SerializedHints = {
+        hints: getHintDefinitions(hints),
+        ...(hints.metadata && { metadata: hints.metadata }),
+        normalization: hints.normalization,
+        ...(hints.tolerance && { tolerance: hints.tolerance }),
+        version: HINTS_FORMAT_VERSION,
+    };
+
+    return JSON.stringify(serialized);
+};
+
+const isValidDefinition = (definition: unknown): definition is HintDefinition =>
+    typeof definition === 'object' && definition !== null && typeof (definition as HintDefinition).phrase === 'string';
+
+/**
+ * Rebuilds hints from the output of `serializeHints`, re-normalizing every phrase with the stored options.
+ *
+ * @param {SerializedHints | string} input - The JSON string, or the already parsed object
+ * @returns {Hints} The hints, ready for matching
+ * @throws {Error} If the input is not a hint set of a supported version
+ */
+export const deserializeHints = (input: SerializedHints | string): Hints => {
+    const serialized: SerializedHints = typeof input === 'string' ? JSON.parse(input) : input;
+
+    if (serialized?.version !== HINTS_FORMAT_VERSION) {
+        throw new Error(`Unsupported hints format version: ${serialized?.version}`);
+    }
+
+    if (!Array.isArray(serialized.hints) || !serialized.hints.every(isValidDefinition)) {
+        throw new Error('Invalid hints: expected an array of hint definitions with a phrase');
+    }
+
+    const { hints, metadata, normalization, tolerance } = serialized;
+    const deserialized = createHints({ ...normalization, ...(tolerance && { tolerance }) }, ...hints);
+
+    return metadata ? { ...deserialized, metadata } : deserialized;
+};
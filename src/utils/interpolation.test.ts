@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'bun:test';
+
+import { estimateSyllableCount, interpolateWordTimings } from './interpolation';
+
+describe('interpolation', () => {
+    describe('estimateSyllableCount', () => {
+        it('should count the vowel groups of English words', () => {
+            expect(estimateSyllableCount('a')).toBe(1);
+            expect(estimateSyllableCount('hello,')).toBe(2);
+            expect(estimateSyllableCount('beautiful')).toBe(3);
+        });
+
+        it('should ignore a silent final e', () => {
+            expect(estimateSyllableCount('make')).toBe(1);
+            expect(estimateSyllableCount('table')).toBe(2);
+        });
+
+        it('should count the vowel marks of Arabic words with diacritics', () => {
+            expect(estimateSyllableCount('كَتَبَ')).toBe(3);
+            expect(estimateSyllableCount('عِلْمٌ')).toBe(2);
+        });
+
+        it('should estimate Arabic words without diacritics from their letters', () => {
+            expect(estimateSyllableCount('في')).toBe(1);
+            expect(estimateSyllableCount('الكتاب')).toBe(3);
+        });
+    });
+
+    describe('interpolateWordTimings', () => {
+        it('should divide the time equally by default', () => {
+            expect(interpolateWordTimings(0, 2, ['Hello', 'world'])).toEqual([
+                { end: 1, start: 0, text: 'Hello' },
+                { end: 2, start: 1, text: 'world' },
+            ]);
+        });
+
+        it('should divide the time by the number of letters', () => {
+            expect(interpolateWordTimings(0, 6, ['a', 'chapter.'], 'characters')).toEqual([
+                { end: 0.75, start: 0, text: 'a' },
+                { end: 6, start: 0.75, text: 'chapter.' },
+            ]);
+        });
+
+        it('should divide the time by the estimated syllables', () => {
+            expect(interpolateWordTimings(0, 4, ['I', 'understand'], 'syllables')).toEqual([
+                { end: 1, start: 0, text: 'I' },
+                { end: 4, start: 1, text: 'understand' },
+            ]);
+        });
+    });
+});
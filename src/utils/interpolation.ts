@@ -0,0 +1,67 @@
+import type { TimingInterpolation, Token } from '../types';
+
+import { normalizeWord } from './textUtils';
+
+const ARABIC_LETTERS = /[\u0621-\u064A]/g;
+
+// Fathatan, dammatan, kasratan, fatha, damma and kasra each start a syllable
+const ARABIC_VOWEL_MARKS = /[\u064B-\u0650]/g;
+
+const LATIN_VOWEL_GROUPS = /[aeiouy]+/g;
+
+/**
+ * Estimates the number of syllables in a word. Arabic words with diacritics count their vowel marks, and Arabic
+ * words without them count one syllable per two letters. Other words count their groups of vowels, ignoring a
+ * silent final "e". The result is a rough estimate, meant for dividing time between words.
+ *
+ * @param word - The word to estimate
+ * @returns The estimated number of syllables, at least 1
+ */
+export const estimateSyllableCount = (word: string): number => {
+    const letters = normalizeWord(word).toLowerCase();
+    const arabicLetters = letters.match(ARABIC_LETTERS)?.length ?? 0;
+
+    if (arabicLetters > 0) {
+        const vowelMarks = word.match(ARABIC_VOWEL_MARKS)?.length ?? 0;
+        return Math.max(1, vowelMarks || Math.round(arabicLetters / 2));
+    }
+
+    const vowelGroups = letters.match(LATIN_VOWEL_GROUPS)?.length ?? 0;
+    const hasSilentE = vowelGroups > 1 && /[^aeiouyl]e$/.test(letters);
+
+    return Math.max(1, vowelGroups - (hasSilentE ? 1 : 0));
+};
+
+const getWeight = (word: string, interpolation: TimingInterpolation) => {
+    if (interpolation === 'characters') {
+        return Math.max(1, normalizeWord(word).length);
+    }
+
+    return interpolation === 'syllables' ? estimateSyllableCount(word) : 1;
+};
+
+/**
+ * Divides the time from `start` to `end` between consecutive words.
+ *
+ * @param start - Start time of the first word in seconds
+ * @param end - End time of the last word in seconds
+ * @param words - The words to time
+ * @param interpolation - How to divide the time, `equal` by default
+ * @returns One token per word, back to back
+ */
+export const interpolateWordTimings = (
+    start: number,
+    end: number,
+    words: string[],
+    interpolation: TimingInterpolation = 'equal',
+): Token[] => {
+    const weights = words.map((word) => getWeight(word, interpolation));
+    const unit = (end - start) / weights.reduce((total, weight) => total + weight, 0);
+    let elapsed = 0;
+
+    return words.map((text, i) => {
+        const wordStart = start + elapsed * unit;
+        elapsed += weights[i];
+        return { end: start + elapsed * unit, start: wordStart, text };
+    });
+};
@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'bun:test';
 
-import { buildLcsTable, extractLcsMatches } from './lcs';
+import { buildLcsTable, extractLcsMatches, findLcsMatches, findLcsMatchesInLinearSpace } from './lcs';
 
 describe('lcs', () => {
     const original = ['a', 'b', 'c', 'd', 'e', 'f'];
@@ -53,4 +53,82 @@ describe('lcs', () => {
             expect([...matches.entries()].sort()).toEqual([...expected.entries()].sort());
         });
     });
+
+    describe('custom matching', () => {
+        it('should match words with the given comparison', () => {
+            const isSameLetter = (x: string, y: string) => x[0] === y[0];
+            const a = ['apple', 'berry', 'cherry'];
+            const b = ['avocado', 'cabbage'];
+
+            expect(buildLcsTable(a, b, isSameLetter)[3][2]).toBe(2);
+            expect(extractLcsMatches(buildLcsTable(a, b, isSameLetter), a, b, isSameLetter)).toEqual(
+                new Map([
+                    [2, 1],
+                    [0, 0],
+                ]),
+            );
+        });
+    });
+
+    describe('findLcsMatchesInLinearSpace', () => {
+        // Deterministic pseudo-random words from a small vocabulary, so that the sequences share many words
+        const createWords = (count: number, seed: number) => {
+            let state = seed;
+            return Array.from({ length: count }, () => {
+                state = (state * 1103515245 + 12345) % 2147483648;
+                return `w${state % 7}`;
+            });
+        };
+
+        const expectValidMatches = (matches: Map<number, number>, a: string[], b: string[]) => {
+            const pairs = [...matches.entries()].sort(([x], [y]) => x - y);
+
+            for (let i = 0; i < pairs.length; i++) {
+                const [ai, bi] = pairs[i];
+                expect(a[ai]).toBe(b[bi]);
+
+                if (i > 0) {
+                    expect(bi).toBeGreaterThan(pairs[i - 1][1]);
+                }
+            }
+        };
+
+        it('should find the same matches as the LCS table', () => {
+            const matches = findLcsMatchesInLinearSpace(original, ground);
+
+            expect([...matches.entries()].sort()).toEqual([...extractLcsMatches(lcsTable, original, ground)].sort());
+        });
+
+        it('should find a common subsequence as long as the one from the LCS table', () => {
+            for (let seed = 1; seed <= 50; seed++) {
+                const a = createWords(5 + (seed % 20), seed);
+                const b = createWords(3 + (seed % 17), seed * 31);
+                const matches = findLcsMatchesInLinearSpace(a, b);
+
+                expectValidMatches(matches, a, b);
+                expect(matches.size).toBe(buildLcsTable(a, b)[a.length][b.length]);
+            }
+        });
+
+        it('should handle empty and disjoint sequences', () => {
+            expect(findLcsMatchesInLinearSpace([], ['a']).size).toBe(0);
+            expect(findLcsMatchesInLinearSpace(['a', 'b'], ['c', 'd']).size).toBe(0);
+        });
+
+        it('should align long, mostly similar sequences', () => {
+            const a = Array.from({ length: 15_000 }, (_, i) => `word${i}`);
+            const b = a.filter((_, i) => i % 100 !== 0).map((word, i) => (i % 250 === 0 ? `${word}x` : word));
+            const matches = findLcsMatchesInLinearSpace(a, b);
+
+            expectValidMatches(matches, a, b);
+            expect(matches.size).toBe(b.length - 60);
+            expect(matches.get(14_999)).toBe(b.length - 1);
+        });
+    });
+
+    describe('findLcsMatches', () => {
+        it('should use the LCS table for small inputs', () => {
+            expect(findLcsMatches(original, ground)).toEqual(extractLcsMatches(lcsTable, original, ground));
+        });
+    });
 });
@@ -1,22 +1,25 @@
 type LCSTable = number[][];
 
+const isEqual = (a: string, b: string) => a === b;
+
 /**
  * Builds a dynamic programming table for Longest Common Subsequence (LCS).
  *
  * @param a - Normalized list of original token strings
  * @param b - Normalized list of ground truth words
+ * @param isMatch - Decides whether two words match, exact equality by default
  * @returns 2D array representing the LCS table (dimensions: (a.length + 1) x (b.length + 1))
  *
  * @complexity O(m * n) where m and n are lengths of `a` and `b`
  */
-export const buildLcsTable = (a: string[], b: string[]) => {
+export const buildLcsTable = (a: string[], b: string[], isMatch = isEqual) => {
     const m = a.length;
     const n = b.length;
     const table: LCSTable = Array.from({ length: m + 1 }, () => Array(n + 1).fill(0));
 
     for (let i = 0; i < m; i++) {
         for (let j = 0; j < n; j++) {
-            if (a[i] === b[j]) {
+            if (isMatch(a[i], b[j])) {
                 table[i + 1][j + 1] = table[i][j] + 1;
             } else {
                 table[i + 1][j + 1] = Math.max(table[i][j + 1], table[i + 1][j]);
@@ -35,15 +38,16 @@ export const buildLcsTable = (a: string[], b: string[]) => {
  * @param table - LCS dynamic programming table
  * @param original - Normalized original token texts
  * @param ground - Normalized ground truth words
+ * @param isMatch - The same comparison the table was built with
  * @returns Array of match objects with `gtIndex` and `origIndex` pairs
  */
-export const extractLcsMatches = (table: LCSTable, original: string[], ground: string[]) => {
+export const extractLcsMatches = (table: LCSTable, original: string[], ground: string[], isMatch = isEqual) => {
     const matches = new Map<number, number>();
     let i = original.length;
     let j = ground.length;
 
     while (i > 0 && j > 0) {
-        if (original[i - 1] === ground[j - 1]) {
+        if (isMatch(original[i - 1], ground[j - 1])) {
             matches.set(i - 1, j - 1);
             i--;
             j--;
@@ -55,3 +59,161 @@ export const extractLcsMatches = (table: LCSTable, original: string[], ground: s
     }
     return matches;
 };
+
+/**
+ * Largest table (in cells) that `findLcsMatches` builds before switching to the linear-space algorithm. About a
+ * thousand tokens aligned against a thousand words.
+ */
+const MAX_LCS_TABLE_CELLS = 1_000_000;
+
+/**
+ * The part of `a` (`aStart` to `aEnd`, exclusive) and of `b` (`bStart` to `bEnd`) that remains to be aligned.
+ */
+type Bounds = { aEnd: number; aStart: number; bEnd: number; bStart: number };
+
+/**
+ * Matches the common prefix and suffix of the bounds and returns what is left in between, or `undefined` if one
+ * side is exhausted.
+ */
+const trimCommonEnds = (a: string[], b: string[], bounds: Bounds, matches: Map<number, number>): Bounds | undefined => {
+    let { aEnd, aStart, bEnd, bStart } = bounds;
+
+    while (aStart < aEnd && bStart < bEnd && a[aStart] === b[bStart]) {
+        matches.set(aStart++, bStart++);
+    }
+
+    while (aStart < aEnd && bStart < bEnd && a[aEnd - 1] === b[bEnd - 1]) {
+        matches.set(--aEnd, --bEnd);
+    }
+
+    return aStart < aEnd && bStart < bEnd ? { aEnd, aStart, bEnd, bStart } : undefined;
+};
+
+/**
+ * Finds the middle snake of Myers' O(ND) difference algorithm: a point on an optimal alignment path roughly halfway
+ * through it, found by exploring from both corners at once. Returns `undefined` if the bounds have nothing in common.
+ */
+const findMiddleSnake = (
+    a: string[],
+    b: string[],
+    { aEnd, aStart, bEnd, bStart }: Bounds,
+): [number, number] | undefined => {
+    const n = aEnd - aStart;
+    const m = bEnd - bStart;
+    const maxD = Math.ceil((n + m) / 2);
+    const offset = maxD;
+    const delta = n - m;
+    const isFrontOverlap = delta % 2 !== 0;
+
+    // The furthest x reached on each diagonal k = x - y, from the start (forward) and from the end (backward).
+    const forward = new Int32Array(2 * maxD + 2).fill(-1);
+    const backward = new Int32Array(2 * maxD + 2).fill(-1);
+    forward[offset + 1] = 0;
+    backward[offset + 1] = 0;
+
+    // Diagonals that ran off the grid are skipped in later rounds.
+    const skipped = { backwardEnd: 0, backwardStart: 0, forwardEnd: 0, forwardStart: 0 };
+
+    // A diagonal not reached yet from the other side can never overlap
+    const reached = (v: Int32Array, i: number) => (v[i] === undefined || v[i] === -1 ? Number.NEGATIVE_INFINITY : v[i]);
+
+    const follow = (v: Int32Array, k: number, d: number, isEqual: (x: number, y: number) => boolean) => {
+        const i = offset + k;
+        let x = k === -d || (k !== d && v[i - 1] < v[i + 1]) ? v[i + 1] : v[i - 1] + 1;
+
+        while (x < n && x - k < m && isEqual(x, x - k)) {
+            x++;
+        }
+
+        v[i] = x;
+        return x;
+    };
+
+    const stepForward = (d: number): [number, number] | undefined => {
+        for (let k = -d + skipped.forwardStart; k <= d - skipped.forwardEnd; k += 2) {
+            const x = follow(forward, k, d, (x, y) => a[aStart + x] === b[bStart + y]);
+            const reverse = offset + delta - k;
+
+            if (x > n) {
+                skipped.forwardEnd += 2;
+            } else if (x - k > m) {
+                skipped.forwardStart += 2;
+            } else if (isFrontOverlap && x >= n - reached(backward, reverse)) {
+                return [aStart + x, bStart + x - k];
+            }
+        }
+
+        return undefined;
+    };
+
+    const stepBackward = (d: number): [number, number] | undefined => {
+        for (let k = -d + skipped.backwardStart; k <= d - skipped.backwardEnd; k += 2) {
+            const x = follow(backward, k, d, (x, y) => a[aEnd - x - 1] === b[bEnd - y - 1]);
+            const reverse = offset + delta - k;
+
+            if (x > n) {
+                skipped.backwardEnd += 2;
+            } else if (x - k > m) {
+                skipped.backwardStart += 2;
+            } else if (!isFrontOverlap && reached(forward, reverse) >= n - x) {
+                return [aStart + forward[reverse], bStart + forward[reverse] - (delta - k)];
+            }
+        }
+
+        return undefined;
+    };
+
+    for (let d = 0; d < maxD; d++) {
+        const split = stepForward(d) ?? stepBackward(d);
+
+        if (split) {
+            return split;
+        }
+    }
+
+    return undefined;
+};
+
+/**
+ * Finds the index pairs of a longest common subsequence of `a` and `b` without building the LCS table.
+ *
+ * Uses the linear-space variant of Myers' difference algorithm: the common prefix and suffix are matched directly,
+ * and the rest is split at the middle snake of an optimal alignment until nothing is left to align. Memory is linear
+ * in the input and the time is close to linear when the sequences are mostly similar, which makes it suitable for
+ * aligning a whole lecture against its edited transcript.
+ *
+ * @param a - Normalized list of original token strings
+ * @param b - Normalized list of ground truth words
+ * @returns Map from the index in `a` to the index in `b` of every matched pair
+ *
+ * @complexity O((m + n) * d) time and O(m + n) memory, where d is the number of differences
+ */
+export const findLcsMatchesInLinearSpace = (a: string[], b: string[]) => {
+    const matches = new Map<number, number>();
+    const pending: Bounds[] = [{ aEnd: a.length, aStart: 0, bEnd: b.length, bStart: 0 }];
+
+    while (pending.length > 0) {
+        const bounds = trimCommonEnds(a, b, pending.pop()!, matches);
+        const split = bounds && findMiddleSnake(a, b, bounds);
+
+        if (bounds && split) {
+            const [x, y] = split;
+            pending.push({ ...bounds, aEnd: x, bEnd: y }, { ...bounds, aStart: x, bStart: y });
+        }
+    }
+
+    return matches;
+};
+
+/**
+ * Finds the index pairs of a longest common subsequence of `a` and `b`, using the LCS table for small inputs and
+ * `findLcsMatchesInLinearSpace` once the table would get too large to hold in memory.
+ *
+ * @param a - Normalized list of original token strings
+ * @param b - Normalized list of ground truth words
+ * @returns Map from the index in `a` to the index in `b` of every matched pair
+ */
+export const findLcsMatches = (a: string[], b: string[]) =>
+    (a.length + 1) * (b.length + 1) <= MAX_LCS_TABLE_CELLS
+        ? extractLcsMatches(buildLcsTable(a, b), a, b)
+        : findLcsMatchesInLinearSpace(a, b);
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'bun:test';
+
+import { ALWAYS_BREAK, SEGMENT_BREAK } from './constants';
+import {
+    type BreakMarker,
+    isBreakMarker,
+    isHardBreak,
+    isSoftBreak,
+    toBreakMarker,
+    toLegacyBreakMarker,
+} from './markers';
+
+describe('markers', () => {
+    const chapter: BreakMarker = {
+        kind: 'chapter',
+        metadata: { title: 'Part 2' },
+        source: 'chapters',
+        strength: 'hard',
+    };
+    const sentence: BreakMarker = { kind: 'sentence', strength: 'soft' };
+    const word = { end: 1, start: 0, text: 'word' };
+
+    describe('isBreakMarker', () => {
+        it('should accept the string constants and structured markers but not tokens', () => {
+            expect(isBreakMarker(SEGMENT_BREAK)).toBe(true);
+            expect(isBreakMarker(ALWAYS_BREAK)).toBe(true);
+            expect(isBreakMarker(chapter)).toBe(true);
+            expect(isBreakMarker(word)).toBe(false);
+            expect(isBreakMarker(undefined)).toBe(false);
+        });
+    });
+
+    describe('isHardBreak/isSoftBreak', () => {
+        it('should classify markers by strength', () => {
+            expect(isHardBreak(ALWAYS_BREAK)).toBe(true);
+            expect(isHardBreak(chapter)).toBe(true);
+            expect(isHardBreak(SEGMENT_BREAK)).toBe(false);
+            expect(isHardBreak(sentence)).toBe(false);
+
+            expect(isSoftBreak(SEGMENT_BREAK)).toBe(true);
+            expect(isSoftBreak(sentence)).toBe(true);
+            expect(isSoftBreak(ALWAYS_BREAK)).toBe(false);
+            expect(isSoftBreak(chapter)).toBe(false);
+            expect(isSoftBreak(word)).toBe(false);
+        });
+    });
+
+    describe('toBreakMarker', () => {
+        it('should convert the string constants into generic segment markers', () => {
+            expect(toBreakMarker(ALWAYS_BREAK)).toEqual({ kind: 'segment', strength: 'hard' });
+            expect(toBreakMarker(SEGMENT_BREAK)).toEqual({ kind: 'segment', strength: 'soft' });
+            expect(toBreakMarker(chapter)).toBe(chapter);
+        });
+    });
+
+    describe('toLegacyBreakMarker', () => {
+        it('should convert markers to the string constant of the same strength', () => {
+            expect(toLegacyBreakMarker(chapter)).toBe(ALWAYS_BREAK);
+            expect(toLegacyBreakMarker(sentence)).toBe(SEGMENT_BREAK);
+            expect(toLegacyBreakMarker(SEGMENT_BREAK)).toBe(SEGMENT_BREAK);
+        });
+    });
+});
@@ -0,0 +1,96 @@
+import type { MarkedToken } from '../types';
+
+import { ALWAYS_BREAK, type AlwaysBreakMarker, SEGMENT_BREAK, type SegmentBreakMarker } from './constants';
+
+/**
+ * The kind of boundary a structured break marker stands for.
+ */
+export type BreakKind = 'chapter' | 'paragraph' | 'segment' | 'sentence' | 'speaker';
+
+/**
+ * How a structured break marker is treated by the pipeline: `hard` breaks behave like `ALWAYS_BREAK` and always
+ * start a new segment, `soft` breaks behave like `SEGMENT_BREAK` and are candidate boundaries.
+ */
+export type BreakStrength = 'hard' | 'soft';
+
+/**
+ * Object-shaped break marker, a richer alternative to the `SEGMENT_BREAK` and `ALWAYS_BREAK` string constants that
+ * every pipeline function accepts alongside them.
+ */
+export type BreakMarker = {
+    /**
+     * The kind of boundary, e.g. a sentence end, a change of speaker or a chapter.
+     */
+    kind: BreakKind;
+
+    /**
+     * Optional extra information about the break, such as the hint phrase or the length of the gap.
+     */
+    metadata?: Record<string, unknown>;
+
+    /**
+     * What produced the break, e.g. `punctuation`, `gap`, `hint` or the name of an external tool.
+     */
+    source?: string;
+
+    /**
+     * Whether the break is hard or soft.
+     */
+    strength: BreakStrength;
+};
+
+/**
+ * Any break marker accepted by the pipeline: one of the string constants or a structured `BreakMarker`.
+ */
+export type AnyBreakMarker = AlwaysBreakMarker | BreakMarker | SegmentBreakMarker;
+
+/**
+ * Checks whether a marked token is a break marker (string or structured) rather than a word token.
+ *
+ * @param {MarkedToken | undefined} token - The marked token to check
+ * @returns {boolean} True for `SEGMENT_BREAK`, `ALWAYS_BREAK` and structured break markers
+ */
+export const isBreakMarker = (token: MarkedToken | undefined): token is AnyBreakMarker =>
+    token === SEGMENT_BREAK || token === ALWAYS_BREAK || (typeof token === 'object' && 'strength' in token);
+
+/**
+ * Checks whether a marked token is a hard break: `ALWAYS_BREAK` or a structured marker with `hard` strength.
+ *
+ * @param {MarkedToken | undefined} token - The marked token to check
+ * @returns {boolean} True if the token always starts a new segment
+ */
+export const isHardBreak = (token: MarkedToken | undefined): boolean =>
+    token === ALWAYS_BREAK || (typeof token === 'object' && 'strength' in token && token.strength === 'hard');
+
+/**
+ * Checks whether a marked token is a soft break: `SEGMENT_BREAK` or a structured marker with `soft` strength.
+ *
+ * @param {MarkedToken | undefined} token - The marked token to check
+ * @returns {boolean} True if the token is a candidate boundary
+ */
+export const isSoftBreak = (token: MarkedToken | undefined): boolean =>
+    token === SEGMENT_BREAK || (typeof token === 'object' && 'strength' in token && token.strength === 'soft');
+
+/**
+ * Converts a break marker to its structured form. String constants become a generic `segment` marker of the
+ * matching strength; structured markers are returned as is.
+ *
+ * @param {AnyBreakMarker} marker - The marker to convert
+ * @returns {BreakMarker} The structured marker
+ */
+export const toBreakMarker = (marker: AnyBreakMarker): BreakMarker => {
+    if (typeof marker === 'object') {
+        return marker;
+    }
+
+    return { kind: 'segment', strength: marker === ALWAYS_BREAK ? 'hard' : 'soft' };
+};
+
+/**
+ * Converts a break marker to the equivalent string constant, for consumers that only understand those.
+ *
+ * @param {AnyBreakMarker} marker - The marker to convert
+ * @returns {AlwaysBreakMarker | SegmentBreakMarker} `ALWAYS_BREAK` for hard breaks, `SEGMENT_BREAK` for soft breaks
+ */
+export const toLegacyBreakMarker = (marker: AnyBreakMarker): AlwaysBreakMarker | SegmentBreakMarker =>
+    isHardBreak(marker) ? ALWAYS_BREAK : SEGMENT_BREAK;
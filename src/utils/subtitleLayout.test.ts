@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'bun:test';
+
+import type { Token } from '../types';
+
+import {
+    DEFAULT_LINE_END_STOP_WORDS,
+    getMinimumCueSeconds,
+    getTokensTextLength,
+    splitTokensIntoCues,
+    wrapTokensIntoLines,
+} from './subtitleLayout';
+
+const toTokens = (text: string, secondsPerWord = 0.5): Token[] =>
+    text.split(' ').map((word, i) => ({ end: (i + 1) * secondsPerWord, start: i * secondsPerWord, text: word }));
+
+const toTexts = (groups: Token[][]) => groups.map((group) => group.map((t) => t.text).join(' '));
+
+describe('subtitleLayout', () => {
+    describe('getTokensTextLength', () => {
+        it('should count the characters including the separating spaces', () => {
+            expect(getTokensTextLength(toTokens('ab cde f'))).toBe(8);
+            expect(getTokensTextLength([])).toBe(0);
+        });
+    });
+
+    describe('wrapTokensIntoLines', () => {
+        it('should wrap tokens onto lines within the character limit', () => {
+            expect(
+                toTexts(wrapTokensIntoLines(toTokens('the quick brown fox jumps over'), { maxCharsPerLine: 10 })),
+            ).toEqual(['the quick', 'brown fox', 'jumps over']);
+        });
+
+        it('should balance the line lengths instead of filling the first line', () => {
+            expect(
+                toTexts(wrapTokensIntoLines(toTokens('I really think this could work out'), { maxCharsPerLine: 30 })),
+            ).toEqual(['I really think', 'this could work out']);
+        });
+
+        it('should not end a line with a stop word or start one with punctuation', () => {
+            expect(
+                toTexts(wrapTokensIntoLines(toTokens('we walked along the river bank'), { maxCharsPerLine: 20 })),
+            ).toEqual(['we walked along', 'the river bank']);
+
+            expect(
+                toTexts(wrapTokensIntoLines(toTokens('ذهبنا إلى المسجد في الصباح الباكر'), { maxCharsPerLine: 20 })),
+            ).toEqual(['ذهبنا إلى المسجد', 'في الصباح الباكر']);
+
+            expect(
+                toTexts(wrapTokensIntoLines(toTokens('wait for it — here it comes now'), { maxCharsPerLine: 20 })),
+            ).toEqual(['wait for it —', 'here it comes now']);
+        });
+
+        it('should use a custom list of stop words', () => {
+            const tokens = toTokens('alpha beta gamma delta');
+
+            expect(toTexts(wrapTokensIntoLines(tokens, { lineEndStopWords: [], maxCharsPerLine: 12 }))).toEqual([
+                'alpha beta',
+                'gamma delta',
+            ]);
+            expect(toTexts(wrapTokensIntoLines(tokens, { lineEndStopWords: ['Beta'], maxCharsPerLine: 17 }))).toEqual([
+                'alpha',
+                'beta gamma delta',
+            ]);
+            expect(DEFAULT_LINE_END_STOP_WORDS.ar).toContain('و');
+        });
+
+        it('should only use the stop words of the language of the cue', () => {
+            const tokens = toTokens('alpha beta gamma delta');
+            const lineEndStopWords = { en: ['beta'], fr: [] };
+
+            expect(toTexts(wrapTokensIntoLines(tokens, { lineEndStopWords, maxCharsPerLine: 17 }))).toEqual([
+                'alpha',
+                'beta gamma delta',
+            ]);
+            expect(
+                toTexts(wrapTokensIntoLines(tokens, { language: 'fr', lineEndStopWords, maxCharsPerLine: 12 })),
+            ).toEqual(['alpha beta', 'gamma delta']);
+        });
+
+        it('should pick the default stop words from the script of the cue', () => {
+            const tokens = toTokens('قال the كتاب جميل');
+
+            expect(toTexts(wrapTokensIntoLines(tokens, { maxCharsPerLine: 13 }))).toEqual(['قال the', 'كتاب جميل']);
+            expect(toTexts(wrapTokensIntoLines(tokens, { language: 'en', maxCharsPerLine: 13 }))).toEqual([
+                'قال the كتاب',
+                'جميل',
+            ]);
+        });
+
+        it('should give an overlong token a line of its own', () => {
+            expect(toTexts(wrapTokensIntoLines(toTokens('a extraordinarily b'), { maxCharsPerLine: 5 }))).toEqual([
+                'a',
+                'extraordinarily',
+                'b',
+            ]);
+        });
+    });
+
+    describe('getMinimumCueSeconds', () => {
+        it('should return the larger of the minimum duration and the reading time', () => {
+            const tokens = toTokens('twenty characters ok');
+
+            expect(getMinimumCueSeconds(tokens, { maxCharsPerLine: 42, maxCharsPerSecond: 10 })).toBe(2);
+            expect(getMinimumCueSeconds(tokens, { maxCharsPerLine: 42, maxCharsPerSecond: 10, minCueSeconds: 3 })).toBe(
+                3,
+            );
+            expect(getMinimumCueSeconds(tokens, { maxCharsPerLine: 42 })).toBe(0);
+        });
+    });
+
+    describe('splitTokensIntoCues', () => {
+        it('should keep tokens that fit in a single cue', () => {
+            const tokens = toTokens('short and sweet');
+            expect(splitTokensIntoCues(tokens, { maxCharsPerLine: 42 })).toEqual([tokens]);
+        });
+
+        it('should split when the text does not fit within the lines of a cue', () => {
+            const cues = splitTokensIntoCues(toTokens('one two three four five six seven eight'), {
+                maxCharsPerLine: 10,
+                maxLinesPerCue: 1,
+            });
+
+            expect(toTexts(cues)).toEqual(['one two', 'three four', 'five six', 'seven', 'eight']);
+        });
+
+        it('should prefer cutting after punctuation over filling the cue', () => {
+            const cues = splitTokensIntoCues(toTokens('we are done. now the next part begins'), {
+                maxCharsPerLine: 14,
+            });
+
+            expect(toTexts(cues)).toEqual(['we are done.', 'now the next part begins']);
+        });
+
+        it('should prefer cutting at a soft break or a pause when there is no punctuation', () => {
+            const tokens = toTokens('alpha beta gamma delta epsilon zeta');
+
+            expect(
+                toTexts(splitTokensIntoCues(tokens, { maxCharsPerLine: 30, maxLinesPerCue: 1 }, new Set([tokens[2]]))),
+            ).toEqual(['alpha beta gamma', 'delta epsilon zeta']);
+
+            tokens[3] = { ...tokens[3], end: 3, start: 2.5 };
+            expect(toTexts(splitTokensIntoCues(tokens, { maxCharsPerLine: 30, maxLinesPerCue: 1 }))).toEqual([
+                'alpha beta gamma',
+                'delta epsilon zeta',
+            ]);
+        });
+
+        it('should split cues that would last longer than maxCueSeconds or take longer to read', () => {
+            const tokens = toTokens('a b c d e f', 1);
+
+            expect(toTexts(splitTokensIntoCues(tokens, { maxCharsPerLine: 42, maxCueSeconds: 3 }))).toEqual([
+                'a b c',
+                'd e f',
+            ]);
+
+            expect(
+                toTexts(
+                    splitTokensIntoCues(toTokens('a b c d e f', 0.1), {
+                        maxCharsPerLine: 42,
+                        maxCharsPerSecond: 2,
+                        maxCueSeconds: 2.5,
+                    }),
+                ),
+            ).toEqual(['a b c', 'd e f']);
+        });
+    });
+});
@@ -0,0 +1,268 @@
+import type { SubtitleLayoutOptions, Token } from '../types';
+
+import { isEndingWithPunctuation, normalizeWord } from './textUtils';
+
+const DEFAULT_MAX_LINES_PER_CUE = 2;
+
+/**
+ * Built-in words that a subtitle line should not end with, keyed by language code.
+ */
+export const DEFAULT_LINE_END_STOP_WORDS: Record<string, string[]> = {
+    ar: [
+        'أن',
+        'إلى',
+        'الذي',
+        'التي',
+        'ان',
+        'الى',
+        'ثم',
+        'على',
+        'عن',
+        'فى',
+        'في',
+        'لا',
+        'لم',
+        'لن',
+        'ما',
+        'مع',
+        'من',
+        'و',
+        'يا',
+    ],
+    en: [
+        'a',
+        'an',
+        'and',
+        'as',
+        'at',
+        'but',
+        'by',
+        'for',
+        'from',
+        'in',
+        'into',
+        'nor',
+        'of',
+        'on',
+        'or',
+        'the',
+        'to',
+        'with',
+    ],
+};
+
+const ARABIC_SCRIPT = /[\u0600-\u06FF]/;
+
+/**
+ * Returns the stop words of the cue: the single list if one was given, otherwise the list of the cue's language.
+ */
+const getLineEndStopWords = (
+    tokens: Token[],
+    { language, lineEndStopWords = DEFAULT_LINE_END_STOP_WORDS }: SubtitleLayoutOptions,
+): string[] => {
+    if (Array.isArray(lineEndStopWords)) {
+        return lineEndStopWords;
+    }
+
+    const cueLanguage = language ?? (tokens.some((token) => ARABIC_SCRIPT.test(token.text)) ? 'ar' : 'en');
+    return lineEndStopWords[cueLanguage] ?? [];
+};
+
+/**
+ * Returns the number of characters the tokens occupy when joined with single spaces.
+ *
+ * @param {Token[]} tokens - The tokens to measure
+ * @returns {number} The length of the joined text
+ */
+export const getTokensTextLength = (tokens: Token[]): number =>
+    tokens.reduce((length, token, i) => length + token.text.length + (i > 0 ? 1 : 0), 0);
+
+/**
+ * Wraps tokens greedily onto lines of at most `maxCharsPerLine` characters, which yields the fewest lines possible.
+ * A token that is longer than the limit on its own is placed on a line of its own rather than being cut.
+ */
+const wrapTokensGreedily = (tokens: Token[], maxCharsPerLine: number): Token[][] => {
+    const lines: Token[][] = [];
+    let line: Token[] = [];
+
+    for (const token of tokens) {
+        if (line.length > 0 && getTokensTextLength([...line, token]) > maxCharsPerLine) {
+            lines.push(line);
+            line = [];
+        }
+
+        line.push(token);
+    }
+
+    if (line.length > 0) {
+        lines.push(line);
+    }
+
+    return lines;
+};
+
+const normalizeStopWord = (word: string) => normalizeWord(word).toLowerCase();
+
+/**
+ * Returns the cost of breaking the line before `tokens[index]`: ending a line on a stop word or starting one with
+ * punctuation is penalized, while ending one on punctuation is slightly preferred.
+ */
+const getLineBreakPenalty = (tokens: Token[], index: number, stopWords: Set<string>, penalty: number): number => {
+    const last = tokens[index - 1].text;
+    let cost = 0;
+
+    if (/^[\p{P}\p{S}]/u.test(tokens[index].text)) {
+        cost += penalty;
+    }
+
+    if (/[\p{P}]$/u.test(last)) {
+        return cost - 1;
+    }
+
+    return stopWords.has(normalizeStopWord(last)) ? cost + penalty : cost;
+};
+
+/**
+ * Wraps the tokens of a cue onto as few lines of at most `maxCharsPerLine` characters as possible, choosing the token
+ * boundaries that balance the line lengths. Boundaries that would end a line on one of the `lineEndStopWords` of the
+ * cue's language (such as "the" or "في") or start a line with punctuation are avoided, and boundaries after punctuation
+ * are preferred, as long as every line still fits. A token longer than the limit on its own gets a line of its own.
+ *
+ * @param {Token[]} tokens - The tokens of a cue
+ * @param {SubtitleLayoutOptions} layout - The layout constraints
+ * @returns {Token[][]} The tokens of each line
+ */
+export const wrapTokensIntoLines = (tokens: Token[], layout: SubtitleLayoutOptions): Token[][] => {
+    const { maxCharsPerLine } = layout;
+    const lineCount = wrapTokensGreedily(tokens, maxCharsPerLine).length;
+
+    if (lineCount <= 1) {
+        return tokens.length > 0 ? [tokens] : [];
+    }
+
+    const stopWords = new Set(getLineEndStopWords(tokens, layout).map(normalizeStopWord));
+    const target = getTokensTextLength(tokens) / lineCount;
+    const penalty = maxCharsPerLine * maxCharsPerLine;
+
+    const getLineCost = (from: number, to: number) => {
+        const length = getTokensTextLength(tokens.slice(from, to));
+        const overflow = length > maxCharsPerLine && to - from > 1;
+        const breakCost = to < tokens.length ? getLineBreakPenalty(tokens, to, stopWords, penalty) : 0;
+
+        return overflow ? Number.POSITIVE_INFINITY : (length - target) ** 2 + breakCost;
+    };
+
+    // costs[k][j] is the cheapest way to put the first j tokens on k lines; cuts[k][j] is where the last line starts.
+    const costs = Array.from({ length: lineCount + 1 }, () =>
+        new Array<number>(tokens.length + 1).fill(Number.POSITIVE_INFINITY),
+    );
+    const cuts = Array.from({ length: lineCount + 1 }, () => new Array<number>(tokens.length + 1).fill(0));
+    costs[0][0] = 0;
+
+    for (let k = 1; k <= lineCount; k++) {
+        for (let j = k; j <= tokens.length; j++) {
+            for (let i = k - 1; i < j; i++) {
+                const cost = costs[k - 1][i] + getLineCost(i, j);
+
+                if (cost < costs[k][j]) {
+                    costs[k][j] = cost;
+                    cuts[k][j] = i;
+                }
+            }
+        }
+    }
+
+    const lines: Token[][] = [];
+
+    for (let k = lineCount, j = tokens.length; k > 0; j = cuts[k][j], k--) {
+        lines.unshift(tokens.slice(cuts[k][j], j));
+    }
+
+    return lines;
+};
+
+/**
+ * Returns how long (in seconds) a cue holding `tokens` has to stay on screen to honour the minimum cue duration
+ * and the maximum reading speed.
+ *
+ * @param {Token[]} tokens - The tokens of the cue
+ * @param {SubtitleLayoutOptions} layout - The layout constraints
+ * @returns {number} The minimum display duration in seconds
+ */
+export const getMinimumCueSeconds = (
+    tokens: Token[],
+    { maxCharsPerSecond, minCueSeconds = 0 }: SubtitleLayoutOptions,
+): number => Math.max(minCueSeconds, maxCharsPerSecond ? getTokensTextLength(tokens) / maxCharsPerSecond : 0);
+
+const fitsInCue = (tokens: Token[], layout: SubtitleLayoutOptions): boolean => {
+    const { maxCharsPerLine, maxCharsPerSecond, maxCueSeconds, maxLinesPerCue = DEFAULT_MAX_LINES_PER_CUE } = layout;
+
+    if (wrapTokensGreedily(tokens, maxCharsPerLine).length > maxLinesPerCue) {
+        return false;
+    }
+
+    if (maxCueSeconds === undefined) {
+        return true;
+    }
+
+    const readingSeconds = maxCharsPerSecond ? getTokensTextLength(tokens) / maxCharsPerSecond : 0;
+    return tokens.at(-1)!.end - tokens[0].start <= maxCueSeconds && readingSeconds <= maxCueSeconds;
+};
+
+/**
+ * Scores the boundary after `tokens[index]`: sentence punctuation beats a soft break, and a longer pause before the
+ * next token breaks ties.
+ */
+const getBoundaryScore = (tokens: Token[], index: number, softBreaks: Set<Token>): number => {
+    const token = tokens[index];
+    const next = tokens[index + 1];
+    const pause = next ? Math.min(Math.max(next.start - token.end, 0), 1) : 0;
+
+    return (isEndingWithPunctuation(token.text) ? 2 : 0) + (softBreaks.has(token) ? 1 : 0) + pause;
+};
+
+/**
+ * Splits a run of tokens into cues that satisfy the layout constraints.
+ *
+ * Each cue takes as many tokens as fit within `maxLinesPerCue` lines of `maxCharsPerLine` characters, within
+ * `maxCueSeconds`, and with no more text than can be read within `maxCueSeconds` at `maxCharsPerSecond`. When the
+ * remaining tokens do not fit, the cue is cut at the best token boundary in the second half of what fits: after
+ * sentence punctuation, then after a token followed by a soft break, then at the longest pause. A single token that
+ * does not fit on its own still becomes a cue.
+ *
+ * @param {Token[]} tokens - The tokens to split
+ * @param {SubtitleLayoutOptions} layout - The layout constraints
+ * @param {Set<Token>} [softBreaks] - Tokens that are followed by a soft break and make good cut points
+ * @returns {Token[][]} The tokens of each cue
+ */
+export const splitTokensIntoCues = (
+    tokens: Token[],
+    layout: SubtitleLayoutOptions,
+    softBreaks: Set<Token> = new Set(),
+): Token[][] => {
+    const cues: Token[][] = [];
+    let rest = tokens;
+
+    while (rest.length > 0) {
+        let fit = 1;
+
+        while (fit < rest.length && fitsInCue(rest.slice(0, fit + 1), layout)) {
+            fit++;
+        }
+
+        let best = fit;
+
+        if (fit < rest.length) {
+            for (let count = fit - 1; count >= Math.ceil(fit / 2); count--) {
+                if (getBoundaryScore(rest, count - 1, softBreaks) > getBoundaryScore(rest, best - 1, softBreaks)) {
+                    best = count;
+                }
+            }
+        }
+
+        cues.push(rest.slice(0, best));
+        rest = rest.slice(best);
+    }
+
+    return cues;
+};
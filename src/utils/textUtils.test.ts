@@ -1,7 +1,12 @@
 import { describe, expect, it } from 'bun:test';
 
+import { DEFAULT_SOFT_HINT_WEIGHT } from './constants';
 import {
+    createHints,
+    formatSecondsToSrtTimestamp,
     formatSecondsToTimestamp,
+    formatSecondsToVttTimestamp,
+    getEditDistance,
     isEndingWithPunctuation,
     normalizeTokenText,
     normalizeWord,
@@ -47,6 +52,29 @@ describe('textUtils', () => {
         });
     });
 
+    describe('formatSecondsToSrtTimestamp', () => {
+        it('should zero-pad every component', () => {
+            expect(formatSecondsToSrtTimestamp(0)).toBe('00:00:00,000');
+            expect(formatSecondsToSrtTimestamp(3723.25)).toBe('01:02:03,250');
+        });
+
+        it('should round to the nearest millisecond without overflowing the fraction', () => {
+            expect(formatSecondsToSrtTimestamp(1.9996)).toBe('00:00:02,000');
+            expect(formatSecondsToSrtTimestamp(59.0004)).toBe('00:00:59,000');
+        });
+
+        it('should clamp negative values to zero', () => {
+            expect(formatSecondsToSrtTimestamp(-1)).toBe('00:00:00,000');
+        });
+    });
+
+    describe('formatSecondsToVttTimestamp', () => {
+        it('should use a period before the milliseconds', () => {
+            expect(formatSecondsToVttTimestamp(3723.25)).toBe('01:02:03.250');
+            expect(formatSecondsToVttTimestamp(1.9996)).toBe('00:00:02.000');
+        });
+    });
+
     describe('isEndingWithPunctuation', () => {
         it('should be true for question marks', () => {
             expect(isEndingWithPunctuation('abcd?')).toBeTrue();
@@ -106,6 +134,88 @@ describe('textUtils', () => {
         });
     });
 
+    describe('createHints', () => {
+        it('should key normalized break hints by their first word', () => {
+            const hints = createHints('إلى اللقاء', 'next topic');
+
+            expect(hints.map).toEqual({ next: [['next', 'topic']], الي: [['الي', 'اللقاء']] });
+            expect(hints.protectedPhrases).toBeUndefined();
+        });
+
+        it('should keep protected phrases apart from the break hints', () => {
+            const hints = createHints(
+                { normalizeYa: false },
+                'next topic',
+                { phrase: 'صلى الله عليه وسلم', type: 'protect' },
+                { phrase: 'next topic', type: 'break' },
+            );
+
+            expect(hints.map).toEqual({
+                next: [
+                    ['next', 'topic'],
+                    ['next', 'topic'],
+                ],
+            });
+            expect(hints.protectedPhrases).toEqual({ صلى: [['صلى', 'الله', 'عليه', 'وسلم']] });
+            expect(hints.normalization.normalizeYa).toBeFalse();
+        });
+
+        it('should keep break-after hints apart from the break-before hints', () => {
+            const hints = createHints('welcome back', { phrase: "that's all for today", position: 'after' });
+
+            expect(hints.map).toEqual({ welcome: [['welcome', 'back']] });
+            expect(hints.breakAfter).toEqual({ "that's": [["that's", 'all', 'for', 'today']] });
+        });
+
+        it('should record the default and per-hint tolerances', () => {
+            const hints = createHints({ tolerance: { arabicVariants: true } }, 'السؤال التالي', {
+                phrase: 'next question',
+                tolerance: { maxEditDistance: 1 },
+            });
+
+            expect(hints.tolerance).toEqual({ arabicVariants: true });
+            expect(hints.tolerances).toEqual({ 'next question': { maxEditDistance: 1 } });
+            expect(hints.normalization).not.toHaveProperty('tolerance');
+        });
+
+        it('should reject a phrase listed again with a different tolerance', () => {
+            const tolerant = { phrase: 'peace be upon him', tolerance: { maxInsertedTokens: 1 } };
+
+            expect(() => createHints(tolerant, { phrase: 'peace be upon him', type: 'protect' })).toThrow(
+                'Conflicting tolerances for the hint phrase "peace be upon him"',
+            );
+            expect(() => createHints(tolerant, { ...tolerant, type: 'soft' })).not.toThrow();
+            expect(createHints('next topic', { phrase: 'next topic', type: 'protect' }).tolerances).toBeUndefined();
+        });
+
+        it('should keep soft hints and their weights apart from the break hints', () => {
+            const hints = createHints(
+                { phrase: 'on the other hand', type: 'soft', weight: 0.3 },
+                { phrase: 'moving on', type: 'soft' },
+                { phrase: 'on the other hand', type: 'soft', weight: 0.2 },
+            );
+
+            expect(hints.map).toEqual({});
+            expect(hints.softHints).toEqual({
+                moving: [['moving', 'on']],
+                on: [
+                    ['on', 'the', 'other', 'hand'],
+                    ['on', 'the', 'other', 'hand'],
+                ],
+            });
+            expect(hints.softHintWeights).toEqual({ 'moving on': DEFAULT_SOFT_HINT_WEIGHT, 'on the other hand': 0.3 });
+        });
+    });
+
+    describe('getEditDistance', () => {
+        it('should count the insertions, deletions and substitutions between two strings', () => {
+            expect(getEditDistance('kitten', 'sitting')).toBe(3);
+            expect(getEditDistance('', 'abc')).toBe(3);
+            expect(getEditDistance('مهمة', 'مهمه')).toBe(1);
+            expect(getEditDistance('same', 'same')).toBe(0);
+        });
+    });
+
     describe('normalizeTokenText', () => {
         it('should remove tatweel when configured', () => {
             expect(normalizeTokenText('اللــــه', { removeTatweel: true })).toBe('الله');
@@ -1,4 +1,13 @@
-import type { ArabicNormalizationOptions, HintMap, Hints } from '../types';
+import type {
+    ArabicNormalizationOptions,
+    CreateHintsOptions,
+    HintDefinition,
+    HintMap,
+    Hints,
+    HintTolerance,
+} from '../types';
+
+import { DEFAULT_SOFT_HINT_WEIGHT } from './constants';
 
 /**
  * Checks if a text string ends with sentence-ending punctuation.
@@ -26,6 +35,35 @@ export const formatSecondsToTimestamp = (seconds: number): string => {
         : `${mins}:${secs.toString().padStart(2, '0')}`;
 };
 
+const formatMillisecondsToClock = (milliseconds: number, fractionSeparator: string): string => {
+    const total = Math.max(0, Math.round(milliseconds));
+    const hrs = Math.floor(total / 3_600_000);
+    const mins = Math.floor((total % 3_600_000) / 60_000);
+    const secs = Math.floor((total % 60_000) / 1000);
+    const ms = total % 1000;
+
+    return `${hrs.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}${fractionSeparator}${ms.toString().padStart(3, '0')}`;
+};
+
+/**
+ * Formats seconds into a SubRip (SRT) timestamp: HH:MM:SS,mmm (e.g., "01:02:05,250").
+ * The value is rounded to the nearest millisecond before being split into its components,
+ * so 1.9996 seconds renders as "00:00:02,000" rather than "00:00:01,1000".
+ *
+ * @param {number} seconds - The time in seconds
+ * @returns {string} Formatted SRT timestamp string
+ */
+export const formatSecondsToSrtTimestamp = (seconds: number): string => formatMillisecondsToClock(seconds * 1000, ',');
+
+/**
+ * Formats seconds into a WebVTT timestamp: HH:MM:SS.mmm (e.g., "01:02:05.250").
+ * Uses the same millisecond rounding as `formatSecondsToSrtTimestamp`.
+ *
+ * @param {number} seconds - The time in seconds
+ * @returns {string} Formatted WebVTT timestamp string
+ */
+export const formatSecondsToVttTimestamp = (seconds: number): string => formatMillisecondsToClock(seconds * 1000, '.');
+
 /**
  * Strip leading/trailing punctuation/symbols, remove Arabic diacritics, NFC-normalize.
  * Normalizes a word by removing diacritics and punctuation.
@@ -56,6 +94,31 @@ export const normalizeWord = (w: string) => {
     );
 };
 
+/**
+ * Computes the Levenshtein distance between two strings: the minimum number of single-character insertions,
+ * deletions and substitutions that turn one into the other.
+ *
+ * @param a The first string
+ * @param b The second string
+ * @returns The edit distance between `a` and `b`
+ */
+export const getEditDistance = (a: string, b: string): number => {
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+
+        for (let j = 1; j <= b.length; j++) {
+            const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+            current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+        }
+
+        previous = current;
+    }
+
+    return previous[b.length];
+};
+
 /**
  * Normalizes token text for Arabic-first matching and mining.
  *
@@ -118,25 +181,90 @@ const DEFAULT_HINT_NORMALIZATION: Required<ArabicNormalizationOptions> = {
     removeTatweel: true,
 };
 
+const addPhrase = (map: HintMap, words: string[]) => {
+    const firstWord = words[0];
+    if (!map[firstWord]) {
+        map[firstWord] = [];
+    }
+    map[firstWord].push(words);
+};
+
+const toHintDefinition = (hint: HintDefinition | string): HintDefinition =>
+    typeof hint === 'string' ? { phrase: hint } : hint;
+
+// A phrase listed more than once keeps its highest weight
+const addSoftHintWeight = (weights: Record<string, number>, phrase: string, weight = DEFAULT_SOFT_HINT_WEIGHT) => {
+    weights[phrase] = Math.max(weights[phrase] ?? 0, weight);
+};
+
+const getHintMapKey = ({ position, type = 'break' }: HintDefinition) =>
+    type === 'break' && position === 'after' ? 'breakAfter' : type;
+
+const isSameTolerance = (a: HintTolerance = {}, b: HintTolerance = {}) =>
+    a.arabicVariants === b.arabicVariants &&
+    a.maxEditDistance === b.maxEditDistance &&
+    a.maxInsertedTokens === b.maxInsertedTokens &&
+    a.maxMissingWords === b.maxMissingWords;
+
+// Tolerances are keyed by phrase alone, so every listing of a phrase has to agree on its tolerance
+const addTolerance = (
+    tolerances: Record<string, HintTolerance>,
+    phrases: Set<string>,
+    phrase: string,
+    hint: HintDefinition,
+) => {
+    if (phrases.has(phrase) && !isSameTolerance(tolerances[phrase], hint.tolerance)) {
+        throw new Error(`Conflicting tolerances for the hint phrase "${hint.phrase}"`);
+    }
+
+    phrases.add(phrase);
+
+    if (hint.tolerance) {
+        tolerances[phrase] = hint.tolerance;
+    }
+};
+
 /**
  * Creates normalized hints for robust Arabic matching (diacritics/punctuation tolerant).
  *
  * Breaking change: hints are now normalized by default. This is intended for Arabic ASR.
  *
- * @param first Either the first hint string, or an options object overriding the default normalization.
- * @param restHints Remaining hint strings, if the first argument was an options object.
+ * Hints can be plain strings, which force a break before the phrase, or `HintDefinition` objects such as
+ * `{ phrase: 'والله أعلم', position: 'after' }` for closing formulas that end a paragraph,
+ * `{ phrase: 'صلى الله عليه وسلم', type: 'protect' }` for phrases soft breaks must not split, or
+ * `{ phrase: 'on the other hand', type: 'soft', weight: 0.3 }` for discourse markers that only suggest a break.
+ *
+ * Every hint can be given a `tolerance` so that it still matches misspelled or interrupted occurrences, and the
+ * options object can set a default `tolerance` for all of them. Tolerances are kept per phrase, so a phrase that is
+ * listed more than once (for example as both a `break` and a `protect` hint) must be given the same tolerance each
+ * time, otherwise an error is thrown.
+ *
+ * @param first Either the first hint, or an options object overriding the default normalization and tolerance.
+ * @param restHints Remaining hints, if the first argument was an options object.
  * @returns A normalized hint map plus the normalization settings used for matching.
  */
-export const createHints = (first: ArabicNormalizationOptions | string, ...restHints: string[]): Hints => {
-    const map: HintMap = {};
+export const createHints = (
+    first: CreateHintsOptions | HintDefinition | string,
+    ...restHints: (HintDefinition | string)[]
+): Hints => {
+    const maps: Record<ReturnType<typeof getHintMapKey>, HintMap> = {
+        break: {},
+        breakAfter: {},
+        protect: {},
+        soft: {},
+    };
+    const softHintWeights: Record<string, number> = {};
+    const tolerances: Record<string, HintTolerance> = {};
+    const phrases = new Set<string>();
+
+    const [{ tolerance, ...normalization }, hints]: [CreateHintsOptions, (HintDefinition | string)[]] =
+        typeof first === 'string' || 'phrase' in first ? [{}, [first, ...restHints]] : [first, restHints];
+    const options = { ...DEFAULT_HINT_NORMALIZATION, ...normalization };
 
-    const [options, hints] =
-        typeof first === 'string'
-            ? [DEFAULT_HINT_NORMALIZATION, [first, ...restHints]]
-            : [{ ...DEFAULT_HINT_NORMALIZATION, ...first }, restHints];
+    const definitions = hints.map(toHintDefinition);
 
-    for (const hint of hints) {
-        const words = hint
+    for (const hint of definitions) {
+        const words = hint.phrase
             .split(/\s+/)
             .map((w) => normalizeTokenText(w, options))
             .filter(Boolean);
@@ -145,14 +273,29 @@ export const createHints = (first: ArabicNormalizationOptions | string, ...restH
             continue;
         }
 
-        const firstWord = words[0];
-        if (!map[firstWord]) {
-            map[firstWord] = [];
+        const key = getHintMapKey(hint);
+        const phrase = words.join(' ');
+        addPhrase(maps[key], words);
+
+        if (key === 'soft') {
+            addSoftHintWeight(softHintWeights, phrase, hint.weight);
         }
-        map[firstWord].push(words);
+
+        addTolerance(tolerances, phrases, phrase, hint);
     }
 
-    return { map, normalization: options };
+    const isUsed = (map: HintMap) => Object.keys(map).length > 0;
+
+    return {
+        ...(isUsed(maps.breakAfter) && { breakAfter: maps.breakAfter }),
+        definitions,
+        map: maps.break,
+        normalization: options,
+        ...(isUsed(maps.protect) && { protectedPhrases: maps.protect }),
+        ...(isUsed(maps.soft) && { softHints: maps.soft, softHintWeights }),
+        ...(tolerance && { tolerance }),
+        ...(Object.keys(tolerances).length > 0 && { tolerances }),
+    };
 };
 
 /**
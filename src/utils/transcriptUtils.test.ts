@@ -1,8 +1,16 @@
 import { describe, expect, it } from 'bun:test';
 
-import type { ArabicNormalizationOptions, Hints } from '../types';
+import type { ArabicNormalizationOptions, Hints, HintTolerance } from '../types';
 
-import { isHintMatched, syncTokensWithGroundTruth } from './transcriptUtils';
+import { DEFAULT_SOFT_HINT_WEIGHT } from './constants';
+import {
+    getHintMatchLength,
+    getPhraseMatchLength,
+    getProtectedContinuations,
+    getSoftHintMatch,
+    isHintMatched,
+    syncTokensWithGroundTruth,
+} from './transcriptUtils';
 
 describe('transcriptUtils', () => {
     describe('isHintMatched', () => {
@@ -23,6 +31,115 @@ describe('transcriptUtils', () => {
             const hints: Hints = { map: { a: [['a', 'b']] }, normalization: {} as Required<ArabicNormalizationOptions> };
             expect(isHintMatched(normalizedTokens, hints, 0)).toBeTrue();
         });
+
+        it('tolerates ة/ه swaps and a dropped alef-lam with arabicVariants', () => {
+            const hints: Hints = {
+                map: { الدرس: [['الدرس', 'القادم', 'مهمة']] },
+                normalization: {} as Required<ArabicNormalizationOptions>,
+            };
+            const normalizedTokens = ['درس', 'القادم', 'مهمه'];
+
+            expect(isHintMatched(normalizedTokens, hints, 0)).toBeFalse();
+            expect(isHintMatched(normalizedTokens, hints, 0, { arabicVariants: true })).toBeTrue();
+        });
+
+        it('tolerates misspelled words within the edit distance', () => {
+            const hints: Hints = {
+                map: { next: [['next', 'question']] },
+                normalization: {} as Required<ArabicNormalizationOptions>,
+            };
+
+            expect(isHintMatched(['nex', 'questoin'], hints, 0, { maxEditDistance: 2 })).toBeTrue();
+            expect(isHintMatched(['nex', 'questoin'], hints, 0, { maxEditDistance: 1 })).toBeFalse();
+            expect(isHintMatched(['ne', 'question'], hints, 0, { maxEditDistance: 2 })).toBeFalse();
+        });
+
+        it('uses the per-hint tolerance before the default tolerance', () => {
+            const hints: Hints = {
+                map: { next: [['next', 'question']] },
+                normalization: {} as Required<ArabicNormalizationOptions>,
+                tolerances: { 'next question': { maxEditDistance: 1 } },
+            };
+
+            expect(isHintMatched(['next', 'questio'], hints, 0)).toBeTrue();
+            expect(isHintMatched(['nxt', 'question'], { ...hints, tolerances: undefined }, 0)).toBeFalse();
+        });
+    });
+
+    describe('getHintMatchLength', () => {
+        it('returns the length of the longest matching phrase', () => {
+            const normalizedTokens = ['a', 'b', 'c'];
+            const hints: Hints = {
+                map: {
+                    a: [
+                        ['a', 'b'],
+                        ['a', 'b', 'c'],
+                        ['a', 'x', 'y', 'z'],
+                    ],
+                },
+                normalization: {} as Required<ArabicNormalizationOptions>,
+            };
+            expect(getHintMatchLength(normalizedTokens, hints, 0)).toBe(3);
+            expect(getHintMatchLength(normalizedTokens, hints, 1)).toBe(0);
+        });
+    });
+
+    describe('getSoftHintMatch', () => {
+        it('returns the length and weight of the longest matching soft hint', () => {
+            const normalizedTokens = ['so', 'anyway', 'next'];
+            const hints: Hints = {
+                map: {},
+                normalization: {} as Required<ArabicNormalizationOptions>,
+                softHints: { so: [['so'], ['so', 'anyway']] },
+                softHintWeights: { so: 0.9, 'so anyway': 0.4 },
+            };
+
+            expect(getSoftHintMatch(normalizedTokens, hints, 0)).toEqual({ length: 2, weight: 0.4 });
+            expect(getSoftHintMatch(normalizedTokens, hints, 1)).toBeUndefined();
+            expect(getSoftHintMatch(normalizedTokens, { ...hints, softHintWeights: undefined }, 0)).toEqual({
+                length: 2,
+                weight: DEFAULT_SOFT_HINT_WEIGHT,
+            });
+        });
+    });
+
+    describe('getPhraseMatchLength', () => {
+        const map = { peace: [['peace', 'be', 'upon', 'him']] };
+        const tolerant = (tolerance: HintTolerance): Hints => ({
+            map: {},
+            normalization: {} as Required<ArabicNormalizationOptions>,
+            tolerance,
+        });
+
+        it('covers an inserted token between the words of the phrase', () => {
+            const normalizedTokens = ['peace', 'be', 'uh', 'upon', 'him', 'said'];
+
+            expect(getPhraseMatchLength(normalizedTokens, map, 0)).toBe(0);
+            expect(getPhraseMatchLength(normalizedTokens, map, 0, tolerant({ maxInsertedTokens: 1 }))).toBe(5);
+        });
+
+        it('tolerates missing words but never a missing first word', () => {
+            const normalizedTokens = ['peace', 'upon', 'him'];
+
+            expect(getPhraseMatchLength(normalizedTokens, map, 0, tolerant({ maxMissingWords: 1 }))).toBe(3);
+            expect(getPhraseMatchLength(['be', 'upon', 'him'], map, 0, tolerant({ maxMissingWords: 1 }))).toBe(0);
+        });
+    });
+
+    describe('getProtectedContinuations', () => {
+        it('flags every token that continues a protected phrase', () => {
+            const normalizedTokens = ['peace', 'be', 'upon', 'him', 'and', 'peace'];
+            const hints: Hints = {
+                map: {},
+                normalization: {} as Required<ArabicNormalizationOptions>,
+                protectedPhrases: { peace: [['peace', 'be', 'upon', 'him']] },
+            };
+
+            expect(getProtectedContinuations(normalizedTokens, hints)).toEqual([false, true, true, true, false, false]);
+            expect(getProtectedContinuations(normalizedTokens, { ...hints, protectedPhrases: undefined })).toEqual(
+                normalizedTokens.map(() => false),
+            );
+        });
     });
 
     describe('syncTokensWithGroundTruth', () => {
@@ -840,5 +957,99 @@ describe('transcriptUtils', () => {
             const actual = syncTokensWithGroundTruth(tokens, 'A B');
             expect(actual).toEqual([{ end: 1, start: 0, text: 'A' }]);
         });
+
+        it('should keep the timing of a token whose spelling the editor corrected', () => {
+            const tokens = ['I', 'met', 'Mohamad', 'yesterday'].map((text, i) => ({ end: i + 1, start: i, text }));
+
+            const actual = syncTokensWithGroundTruth(tokens, 'I met the great Muhammad yesterday');
+
+            expect(actual).toEqual([
+                { end: 1, start: 0, text: 'I' },
+                { end: 2, start: 1, text: 'met' },
+                { end: 2, start: 2, text: 'the' },
+                { end: 2, start: 2, text: 'great' },
+                { end: 3, start: 2, text: 'Muhammad' },
+                { end: 4, start: 3, text: 'yesterday' },
+            ]);
+        });
+
+        it('should anchor Arabic letter variants', () => {
+            const tokens = ['قال', 'ابن', 'تيميه', 'الله'].map((text, i) => ({ end: i + 1, start: i, text }));
+
+            const actual = syncTokensWithGroundTruth(tokens, 'قال ابن تيمية رحمه الله');
+
+            expect(actual[2]).toEqual({ end: 3, start: 2, text: 'تيمية' });
+            expect(actual[3]).toEqual({ end: 3, start: 3, text: 'رحمه' });
+        });
+
+        it('should not anchor short function words that only look alike', () => {
+            const toTokens = (words: string[]) => words.map((text, i) => ({ end: i + 1, start: i, text }));
+
+            const the = syncTokensWithGroundTruth(
+                toTokens(['I', 'met', 'they', 'yesterday']),
+                'I met all the people yesterday',
+            );
+            const these = syncTokensWithGroundTruth(
+                toTokens(['I', 'read', 'these', 'today']),
+                'I read all of this today',
+            );
+
+            expect(the[3]).not.toEqual({ end: 3, start: 2, text: 'the' });
+            expect(these[4]).not.toEqual({ end: 3, start: 2, text: 'this' });
+        });
+
+        it('should divide the timing of a token the editor split into several words', () => {
+            const tokens = ['I', 'cannot', 'go'].map((text, i) => ({ end: i + 1, start: i, text }));
+
+            expect(syncTokensWithGroundTruth(tokens, 'I can not go')).toEqual([
+                { end: 1, start: 0, text: 'I' },
+                { end: 1.5, start: 1, text: 'can' },
+                { end: 2, start: 1.5, text: 'not' },
+                { end: 3, start: 2, text: 'go' },
+            ]);
+
+            const arabic = ['السلام', 'عليكم'].map((text, i) => ({ end: i + 1, start: i, text }));
+
+            expect(syncTokensWithGroundTruth(arabic, 'السلام علي كم')).toEqual([
+                { end: 1, start: 0, text: 'السلام' },
+                { end: 1.6, start: 1, text: 'علي' },
+                { end: 2, start: 1.6, text: 'كم' },
+            ]);
+        });
+
+        it('should combine the timings of tokens the editor merged into one word', () => {
+            const tokens = ['every', 'one', 'is', 'here'].map((text, i) => ({ end: i + 1, start: i, text }));
+
+            expect(syncTokensWithGroundTruth(tokens, 'Everyone is here')).toEqual([
+                { end: 2, start: 0, text: 'Everyone' },
+                { end: 3, start: 2, text: 'is' },
+                { end: 4, start: 3, text: 'here' },
+            ]);
+        });
+
+        it('should time inserted words with the requested interpolation', () => {
+            const tokens = [
+                { end: 1, start: 0, text: 'I' },
+                { end: 6, start: 5, text: 'home' },
+            ];
+
+            expect(syncTokensWithGroundTruth(tokens, 'I a chapter home', { interpolation: 'characters' })).toEqual([
+                { end: 1, start: 0, text: 'I' },
+                { end: 1.5, start: 1, text: 'a' },
+                { end: 5, start: 1.5, text: 'chapter' },
+                { end: 6, start: 5, text: 'home' },
+            ]);
+        });
+
+        it('should align a whole lecture without building the full LCS table', () => {
+            const tokens = Array.from({ length: 15_000 }, (_, i) => ({ end: i + 1, start: i, text: `word${i}` }));
+            const words = tokens.map(({ text }, i) => (i % 500 === 250 ? `${text}!` : text));
+
+            const actual = syncTokensWithGroundTruth(tokens, words.join(' '));
+
+            expect(actual).toHaveLength(15_000);
+            expect(actual[250]).toEqual({ end: 251, start: 250, text: 'word250!' });
+            expect(actual.some((token) => 'isUnknown' in token)).toBeFalse();
+        });
     });
 });
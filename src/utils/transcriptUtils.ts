@@ -1,7 +1,17 @@
-import type { GroundedToken, Hints, Token } from '@/types';
-
-import { buildLcsTable, extractLcsMatches } from './lcs';
-import { normalizeWord, tokenizeGroundTruth } from './textUtils';
+import type {
+    GroundedToken,
+    HintMap,
+    Hints,
+    HintTolerance,
+    InterpolationOptions,
+    TimingInterpolation,
+    Token,
+} from '@/types';
+
+import { DEFAULT_SOFT_HINT_WEIGHT } from './constants';
+import { interpolateWordTimings } from './interpolation';
+import { buildLcsTable, extractLcsMatches, findLcsMatches } from './lcs';
+import { getEditDistance, normalizeTokenText, normalizeWord, tokenizeGroundTruth } from './textUtils';
 
 /**
  * Determines whether any hint phrase in `hints` matches the sequence of normalized token texts
@@ -50,90 +60,474 @@ const isHintSequenceMatchedAtIndex = (normalizedTokens: string[], words: string[
     return true;
 };
 
-export const isHintMatched = (normalizedTokens: string[], hints: Hints, index: number) => {
-    const key = normalizedTokens[index];
-    const candidates = hints.map[key];
+const toArabicVariant = (word: string) => word.replace(/ة/g, 'ه').replace(/^ال(?=.{2})/, '');
 
-    if (!candidates) {
-        return false;
+const isWordMatched = (expected: string, actual: string, tolerance: HintTolerance): boolean => {
+    if (expected === actual) {
+        return true;
+    }
+
+    const [a, b] = tolerance.arabicVariants ? [toArabicVariant(expected), toArabicVariant(actual)] : [expected, actual];
+    const maxEditDistance = tolerance.maxEditDistance ?? 0;
+
+    return (
+        a === b ||
+        (maxEditDistance > 0 && Math.min(a.length, b.length) >= 3 && getEditDistance(a, b) <= maxEditDistance)
+    );
+};
+
+type ToleranceBudget = { inserted: number; missing: number };
+
+/**
+ * Returns the index just past the tokens matched by `words[wordIndex..]` starting at `tokenIndex`, or -1. The first
+ * word must match; later words may be missing, and extra tokens may appear between words (but not after the last).
+ */
+const getTolerantMatchEnd = (
+    normalizedTokens: string[],
+    words: string[],
+    wordIndex: number,
+    tokenIndex: number,
+    tolerance: HintTolerance,
+    budget: ToleranceBudget,
+): number => {
+    if (wordIndex === words.length) {
+        return tokenIndex;
     }
 
+    const matchesAt = (i: number) =>
+        i < normalizedTokens.length && isWordMatched(words[wordIndex], normalizedTokens[i], tolerance);
+    const continueWith = (allowed: boolean, nextToken: number, nextBudget: ToleranceBudget) =>
+        allowed ? getTolerantMatchEnd(normalizedTokens, words, wordIndex + 1, nextToken, tolerance, nextBudget) : -1;
+
+    const matched = continueWith(matchesAt(tokenIndex), tokenIndex + 1, budget);
+
+    if (matched >= 0 || wordIndex === 0) {
+        return matched;
+    }
+
+    // An extra token before this word, such as a filler
+    const afterInsertion = continueWith(budget.inserted > 0 && matchesAt(tokenIndex + 1), tokenIndex + 2, {
+        ...budget,
+        inserted: budget.inserted - 1,
+    });
+
+    if (afterInsertion >= 0) {
+        return afterInsertion;
+    }
+
+    // This word is missing from the tokens
+    return continueWith(budget.missing > 0, tokenIndex, { ...budget, missing: budget.missing - 1 });
+};
+
+/**
+ * Returns the number of tokens matched by `words` starting at `index`, exactly or within the given tolerance.
+ *
+ * @param normalizedTokens The full array of normalized token text strings being scanned.
+ * @param words The normalized words of the phrase.
+ * @param index The position in `normalizedTokens` at which to try matching the phrase.
+ * @param tolerance Optional tolerance; the words must match exactly without one.
+ * @returns The number of tokens covered by the match, or `0`.
+ */
+export const getWordsMatchLength = (
+    normalizedTokens: string[],
+    words: string[],
+    index: number,
+    tolerance?: HintTolerance,
+): number => {
+    if (!tolerance) {
+        return isHintSequenceMatchedAtIndex(normalizedTokens, words, index) ? words.length : 0;
+    }
+
+    const budget = { inserted: tolerance.maxInsertedTokens ?? 0, missing: tolerance.maxMissingWords ?? 0 };
+    return Math.max(getTolerantMatchEnd(normalizedTokens, words, 0, index, tolerance, budget) - index, 0);
+};
+
+/**
+ * Finds the phrase of `map` that covers the most tokens starting at `index`, applying the tolerances of `hints`.
+ */
+const findPhraseMatch = (
+    normalizedTokens: string[],
+    map: HintMap,
+    index: number,
+    hints?: Hints,
+): undefined | { length: number; words: string[] } => {
+    const isTolerant = Boolean(hints?.tolerance || hints?.tolerances);
+    // A tolerant match may start with a misspelled first word, so every phrase is a candidate
+    const candidates = isTolerant ? Object.values(map).flat() : (map[normalizedTokens[index]] ?? []);
+    let best: undefined | { length: number; words: string[] };
+
     for (const words of candidates) {
-        if (isHintSequenceMatchedAtIndex(normalizedTokens, words, index)) {
-            return true;
+        const tolerance = hints?.tolerances?.[words.join(' ')] ?? hints?.tolerance;
+        const length = getWordsMatchLength(normalizedTokens, words, index, tolerance);
+
+        if (length > (best?.length ?? 0)) {
+            best = { length, words };
         }
     }
 
-    return false;
+    return best;
+};
+
+/**
+ * Returns the number of tokens covered by the longest phrase of `map` that matches the normalized token texts
+ * starting at `index`, or `0` if no phrase matches there. Phrases match exactly unless `hints` specifies a
+ * tolerance for them, in which case the match may span inserted tokens or miss words.
+ *
+ * @param normalizedTokens The full array of normalized token text strings being scanned.
+ * @param map The phrases to match, keyed by their first word.
+ * @param index The position in `normalizedTokens` at which to try matching each phrase.
+ * @param hints Optional hints providing the default and per-phrase tolerances.
+ * @returns The number of tokens covered by the longest matching phrase, or `0`.
+ */
+export const getPhraseMatchLength = (normalizedTokens: string[], map: HintMap, index: number, hints?: Hints): number =>
+    findPhraseMatch(normalizedTokens, map, index, hints)?.length ?? 0;
+
+/**
+ * Returns the number of tokens covered by the longest hint phrase in `hints` that matches the
+ * normalized token texts starting at `index`, or `0` if no hint matches there.
+ *
+ * @param normalizedTokens The full array of normalized token text strings being scanned.
+ * @param hints A `Hints` map, as produced by `createHints`.
+ * @param index The position in `normalizedTokens` at which to try matching each hint phrase.
+ * @param tolerance Tolerance for hints without their own, defaulting to the tolerance of `hints`.
+ * @returns The number of tokens covered by the longest matching hint phrase, or `0`.
+ */
+export const getHintMatchLength = (
+    normalizedTokens: string[],
+    hints: Hints,
+    index: number,
+    tolerance: HintTolerance | undefined = hints.tolerance,
+): number => getPhraseMatchLength(normalizedTokens, hints.map, index, { ...hints, tolerance });
+
+/**
+ * Flags, for each token, whether a break before it would split one of the protected phrases of `hints`.
+ *
+ * @param normalizedTokens The full array of normalized token text strings being scanned.
+ * @param hints A `Hints` map, as produced by `createHints`.
+ * @returns `true` at every index whose token continues a protected phrase.
+ */
+export const getProtectedContinuations = (normalizedTokens: string[], hints: Hints): boolean[] => {
+    const continuations = normalizedTokens.map(() => false);
+
+    if (!hints.protectedPhrases) {
+        return continuations;
+    }
+
+    for (let i = 0; i < normalizedTokens.length; i++) {
+        const length = getPhraseMatchLength(normalizedTokens, hints.protectedPhrases, i, hints);
+        continuations.fill(true, i + 1, i + length);
+    }
+
+    return continuations;
+};
+
+/**
+ * Returns the length and weight of the longest soft hint phrase in `hints` that matches the normalized token texts
+ * starting at `index`, or `undefined` if no soft hint matches there.
+ *
+ * @param normalizedTokens The full array of normalized token text strings being scanned.
+ * @param hints A `Hints` map, as produced by `createHints`.
+ * @param index The position in `normalizedTokens` at which to try matching each soft hint phrase.
+ * @returns The length of the matching phrase and its weight, or `undefined`.
+ */
+export const getSoftHintMatch = (
+    normalizedTokens: string[],
+    hints: Hints,
+    index: number,
+): undefined | { length: number; weight: number } => {
+    const match = hints.softHints && findPhraseMatch(normalizedTokens, hints.softHints, index, hints);
+
+    if (!match) {
+        return undefined;
+    }
+
+    return { length: match.length, weight: hints.softHintWeights?.[match.words.join(' ')] ?? DEFAULT_SOFT_HINT_WEIGHT };
 };
 
+export const isHintMatched = (normalizedTokens: string[], hints: Hints, index: number, tolerance?: HintTolerance) =>
+    getHintMatchLength(normalizedTokens, hints, index, tolerance ?? hints.tolerance) > 0;
+
 /**
- * @typedef {object} CreateInsertionTokenProps
+ * @typedef {object} CreateInsertionTokensProps
  * @property {string[]} gtGap - The list of ground truth words in the current gap.
- * @property {number} gtGapIndex - The index of the current word within the `gtGap`.
  * @property {Token[]} tokenGap - The list of original tokens in the current gap.
  * @property {Token | null} prevToken - The last processed token before the gap.
  * @property {Token} nextToken - The next anchor token that defines the end of the gap.
+ * @property {TimingInterpolation} [interpolation] - How the gap's time is divided between the inserted words.
  */
-type CreateInsertionTokenProps = {
+type CreateInsertionTokensProps = {
     gtGap: string[];
-    gtGapIndex: number;
+    interpolation?: TimingInterpolation;
     nextToken: Token;
     prevToken: null | Token;
     tokenGap: Token[];
 };
 
 /**
- * Creates a new token for an inserted ground truth word.
- * It estimates the start and end times by distributing the available time
+ * Creates new tokens for the ground truth words of a gap that have no token left to take their place.
+ * It estimates their start and end times by distributing the available time
  * within the gap between the previous and next anchor tokens.
  *
- * @param {string} text - The text of the token to be inserted.
- * @param {CreateInsertionTokenProps} props - The contextual information for the insertion.
- * @returns {Token} A new token with estimated timing.
+ * @param {CreateInsertionTokensProps} props - The contextual information for the insertion.
+ * @returns {Token[]} One token with estimated timing per inserted word, in order.
  */
-const createInsertionToken = (
-    text: string,
-    { gtGap, gtGapIndex, nextToken, prevToken, tokenGap }: CreateInsertionTokenProps,
-): Token => {
+const createInsertionTokens = ({
+    gtGap,
+    interpolation,
+    nextToken,
+    prevToken,
+    tokenGap,
+}: CreateInsertionTokensProps): Token[] => {
     const gapStartTime = prevToken?.end ?? 0;
     const gapEndTime = nextToken.start;
     const timeAvailable = Math.max(0, gapEndTime - gapStartTime);
 
     // Distribute the available time amongst all words that need to be inserted in this gap.
-    const itemsToInsert = gtGap.length - tokenGap.length;
-    const timePerItem = itemsToInsert > 0 ? timeAvailable / itemsToInsert : 0;
+    const insertions = gtGap.slice(tokenGap.length);
 
-    // Calculate the position of *this specific word* within the set of insertions.
-    const insertionIndex = gtGapIndex - tokenGap.length;
-    const start = gapStartTime + insertionIndex * timePerItem;
-    const end = start + timePerItem;
+    return interpolateWordTimings(gapStartTime, gapStartTime + timeAvailable, insertions, interpolation);
+};
+
+/**
+ * An alignment point: `tokenCount` tokens starting at `tokenIndex` that correspond to `gtCount` ground truth words
+ * starting at `gtIndex`. Both counts are 1 unless the editor split a token into several words or merged several
+ * tokens into one word.
+ */
+type Anchor = { gtCount: number; gtIndex: number; tokenCount: number; tokenIndex: number };
+
+/**
+ * The tokens (`tokenStart` to `tokenEnd`, exclusive) and ground truth words (`gtStart` to `gtEnd`) between anchors.
+ */
+type AnchorGap = { gtEnd: number; gtStart: number; tokenEnd: number; tokenStart: number };
+
+/**
+ * Largest gap between anchors (in LCS table cells) that is searched for split, merged or near-matching words. Bigger
+ * gaps are unrelated passages rather than edits.
+ */
+const MAX_GAP_SEARCH_CELLS = 10_000;
+
+/**
+ * Most words a single token can be split into, or tokens merged into a single word.
+ */
+const MAX_SPAN_PIECES = 3;
+
+const toAnchor = (tokenIndex: number, gtIndex: number): Anchor => ({ gtCount: 1, gtIndex, tokenCount: 1, tokenIndex });
+
+const toLooseForm = (word: string) =>
+    toArabicVariant(
+        normalizeTokenText(word, {
+            normalizeAlef: true,
+            normalizeHamza: true,
+            normalizeYa: true,
+            removeTatweel: true,
+        }).toLowerCase(),
+    );
+
+const toConsonantSkeleton = (word: string) => word.replace(/[aeiouyاوي]/g, '');
+
+/**
+ * Shortest word (in letters) that can be near-matched by edit distance. Shorter words, mostly function words such as
+ * "the" and "they", are too easily one edit apart.
+ */
+const MIN_EDIT_MATCH_LENGTH = 4;
+
+/**
+ * Shortest word (in letters) that can be near-matched by its consonant skeleton, so that function words such as
+ * "this" and "these" do not match each other.
+ */
+const MIN_SKELETON_MATCH_LENGTH = 5;
 
-    return { end, start, text };
+/**
+ * Whether two loosely normalized words are likely the same word spelled differently: a small edit distance, or the
+ * same consonant skeleton (for longer words whose vowels were written differently).
+ */
+const isNearMatch = (a: string, b: string): boolean => {
+    if (a === b) {
+        return true;
+    }
+
+    const shorter = Math.min(a.length, b.length);
+
+    if (shorter >= MIN_EDIT_MATCH_LENGTH && getEditDistance(a, b) <= (shorter >= 6 ? 2 : 1)) {
+        return true;
+    }
+
+    return shorter >= MIN_SKELETON_MATCH_LENGTH && toConsonantSkeleton(a) === toConsonantSkeleton(b);
+};
+
+const getAnchorGaps = (anchors: Anchor[], tokenCount: number, gtCount: number): AnchorGap[] => {
+    const gaps: AnchorGap[] = [];
+    let tokenStart = 0;
+    let gtStart = 0;
+
+    for (const anchor of [...anchors, { ...toAnchor(tokenCount, gtCount), gtCount: 0, tokenCount: 0 }]) {
+        gaps.push({ gtEnd: anchor.gtIndex, gtStart, tokenEnd: anchor.tokenIndex, tokenStart });
+        tokenStart = anchor.tokenIndex + anchor.tokenCount;
+        gtStart = anchor.gtIndex + anchor.gtCount;
+    }
+
+    return gaps;
+};
+
+/**
+ * Runs `find` on every gap between the anchors that is small enough to search, and returns all the anchors sorted.
+ */
+const addAnchorsInGaps = (
+    anchors: Anchor[],
+    tokens: string[],
+    words: string[],
+    find: (tokens: string[], words: string[], gap: AnchorGap) => Anchor[],
+): Anchor[] => {
+    const found = getAnchorGaps(anchors, tokens.length, words.length)
+        .filter((gap) => {
+            const cells = (gap.tokenEnd - gap.tokenStart) * (gap.gtEnd - gap.gtStart);
+            return cells > 0 && cells <= MAX_GAP_SEARCH_CELLS;
+        })
+        .flatMap((gap) => find(tokens, words, gap));
+
+    return [...anchors, ...found].sort((a, b) => a.tokenIndex - b.tokenIndex);
+};
+
+const joinPieces = (words: string[], start: number, count: number) => {
+    const pieces = words.slice(start, start + count);
+    return pieces.every(Boolean) ? pieces.join('') : undefined;
+};
+
+/**
+ * Returns the anchor of a token at `t` split into the words at `g`, or of the tokens at `t` merged into the word at
+ * `g`, if there is one within the gap.
+ */
+const getSpanAnchor = (tokens: string[], words: string[], t: number, g: number, gap: AnchorGap): Anchor | undefined => {
+    for (let count = 2; count <= MAX_SPAN_PIECES; count++) {
+        if (g + count <= gap.gtEnd && tokens[t] && tokens[t] === joinPieces(words, g, count)) {
+            return { ...toAnchor(t, g), gtCount: count };
+        }
+
+        if (t + count <= gap.tokenEnd && words[g] && words[g] === joinPieces(tokens, t, count)) {
+            return { ...toAnchor(t, g), tokenCount: count };
+        }
+    }
+
+    return undefined;
+};
+
+/**
+ * Finds tokens the editor split into several words ("cannot" → "can not", "عليكم" → "علي كم") and tokens the editor
+ * merged into one word, in order.
+ */
+const findSpanAnchors = (tokens: string[], words: string[], gap: AnchorGap): Anchor[] => {
+    const anchors: Anchor[] = [];
+    let gtStart = gap.gtStart;
+
+    for (let t = gap.tokenStart; t < gap.tokenEnd; t++) {
+        let anchor: Anchor | undefined;
+
+        for (let g = gtStart; g < gap.gtEnd && !anchor; g++) {
+            anchor = getSpanAnchor(tokens, words, t, g, gap);
+        }
+
+        if (anchor) {
+            anchors.push(anchor);
+            t += anchor.tokenCount - 1;
+            gtStart = anchor.gtIndex + anchor.gtCount;
+        }
+    }
+
+    return anchors;
+};
+
+/**
+ * Finds near-matching words. They are only searched for after exact matches and split or merged words, so a
+ * near-match can only anchor a token that nothing else claimed.
+ */
+const findNearAnchors = (tokens: string[], words: string[], gap: AnchorGap): Anchor[] => {
+    const a = tokens.slice(gap.tokenStart, gap.tokenEnd);
+    const b = words.slice(gap.gtStart, gap.gtEnd);
+
+    return Array.from(extractLcsMatches(buildLcsTable(a, b, isNearMatch), a, b, isNearMatch), ([t, g]) =>
+        toAnchor(gap.tokenStart + t, gap.gtStart + g),
+    );
+};
+
+const getAnchorEnd = ({ gtCount, gtIndex, tokenCount, tokenIndex }: Anchor): [number, number] => [
+    tokenIndex + tokenCount - 1,
+    gtIndex + gtCount - 1,
+];
+
+/**
+ * Anchors the first token to the first word and the last token to the last word, unless an anchor already starts or
+ * ends there, then drops anchors that are not strictly increasing.
+ */
+const enforceEdgeAnchors = (anchors: Anchor[], tokenCount: number, gtCount: number): Anchor[] => {
+    let result = anchors;
+    const first = result[0];
+
+    if (first?.tokenIndex !== 0 || first.gtIndex !== 0) {
+        result = [toAnchor(0, 0), ...result.filter((anchor) => anchor.tokenIndex !== 0)];
+    }
+
+    const [lastToken, lastGt] = getAnchorEnd(result.at(-1)!);
+
+    if (tokenCount > 1 && gtCount > 1 && (lastToken !== tokenCount - 1 || lastGt !== gtCount - 1)) {
+        result = [
+            ...result.filter((anchor) => getAnchorEnd(anchor)[0] < tokenCount - 1),
+            toAnchor(tokenCount - 1, gtCount - 1),
+        ];
+    }
+
+    return result.filter((anchor, i) => {
+        const previous = result[i - 1];
+        return (
+            !previous || (anchor.tokenIndex > getAnchorEnd(previous)[0] && anchor.gtIndex > getAnchorEnd(previous)[1])
+        );
+    });
 };
 
 /**
  * Identifies and returns a sorted list of reliable alignment points (anchors)
  * between the token and ground truth sequences.
- * @returns An array of [tokenIndex, gtIndex] pairs.
+ *
+ * Exact matches of the normalized words are found first. The gaps between them are then searched for tokens the
+ * editor split or merged, and finally for near-matches (a corrected spelling, an Arabic letter variant or a different
+ * vowel), so that these tokens keep their timing instead of being interpolated.
+ * @returns The anchors, ordered by token index.
  */
-const findAnchors = (tokens: Token[], groundTruthWords: string[]): [number, number][] => {
+const findAnchors = (tokens: Token[], groundTruthWords: string[], anchorEdges = true): Anchor[] => {
     const normalizedTokens = tokens.map((t) => normalizeWord(t.text));
     const normalizedGTWords = groundTruthWords.map(normalizeWord);
 
-    const lcsTable = buildLcsTable(normalizedTokens, normalizedGTWords);
-    const lcsMatches = extractLcsMatches(lcsTable, normalizedTokens, normalizedGTWords);
+    const exact = Array.from(findLcsMatches(normalizedTokens, normalizedGTWords), ([t, g]) => toAnchor(t, g)).sort(
+        (a, b) => a.tokenIndex - b.tokenIndex,
+    );
+
+    const looseTokens = tokens.map((token) => toLooseForm(token.text));
+    const looseWords = groundTruthWords.map(toLooseForm);
+    const withSpans = addAnchorsInGaps(exact, looseTokens, looseWords, findSpanAnchors);
+    const anchors = addAnchorsInGaps(withSpans, looseTokens, looseWords, findNearAnchors);
+
+    return anchorEdges ? enforceEdgeAnchors(anchors, tokens.length, groundTruthWords.length) : anchors;
+};
+
+/**
+ * Grounds the tokens of an anchor: merged tokens become one token spanning their timings, and a split token's
+ * timing is divided between its words in proportion to their length.
+ */
+const groundAnchor = (tokens: Token[], groundTruthWords: string[], anchor: Anchor): Token[] => {
+    const token = tokens[anchor.tokenIndex];
+    const words = groundTruthWords.slice(anchor.gtIndex, anchor.gtIndex + anchor.gtCount);
+
+    if (anchor.tokenCount > 1) {
+        return [{ ...token, end: tokens[anchor.tokenIndex + anchor.tokenCount - 1].end, text: words[0] }];
+    }
 
-    // Enforce hard constraints for first and last tokens.
-    lcsMatches.set(0, 0);
-    if (tokens.length > 1 && groundTruthWords.length > 1) {
-        lcsMatches.set(tokens.length - 1, groundTruthWords.length - 1);
+    if (words.length === 1) {
+        return [{ ...token, text: words[0] }];
     }
 
-    // Sort and filter to ensure anchors are strictly increasing.
-    return Array.from(lcsMatches.entries())
-        .sort((a, b) => a[0] - b[0])
-        .filter((v, i, a) => !i || v[1] > a[i - 1][1]);
+    return interpolateWordTimings(token.start, token.end, words, 'characters').map((timing) => ({
+        ...token,
+        ...timing,
+    }));
 };
 
 /**
@@ -143,7 +537,8 @@ const findAnchors = (tokens: Token[], groundTruthWords: string[]): [number, numb
 const processGaps = (
     tokens: Token[],
     groundTruthWords: string[],
-    anchors: [number, number][],
+    anchors: Anchor[],
+    interpolation?: TimingInterpolation,
 ): {
     lastGtIndex: number;
     lastTokenIndex: number;
@@ -153,26 +548,27 @@ const processGaps = (
     let lastTokenIndex = -1;
     let lastGtIndex = -1;
 
-    const pushInsertion = (gtGap: string[], gtGapIndex: number, tokenGap: Token[], currentTokenIndex: number) => {
-        return createInsertionToken(gtGap[gtGapIndex], {
-            gtGap,
-            gtGapIndex,
-            nextToken: tokens[currentTokenIndex],
-            prevToken: lastTokenIndex === -1 ? null : tokens[lastTokenIndex],
-            tokenGap,
-        });
-    };
-
-    for (const [currentTokenIndex, currentGtIndex] of anchors) {
+    for (const anchor of anchors) {
+        const { gtIndex: currentGtIndex, tokenIndex: currentTokenIndex } = anchor;
         const tokenGap = tokens.slice(lastTokenIndex + 1, currentTokenIndex);
         const gtGap = groundTruthWords.slice(lastGtIndex + 1, currentGtIndex);
+        const insertions =
+            gtGap.length > tokenGap.length
+                ? createInsertionTokens({
+                      gtGap,
+                      interpolation,
+                      nextToken: tokens[currentTokenIndex],
+                      prevToken: lastTokenIndex === -1 ? null : tokens[lastTokenIndex],
+                      tokenGap,
+                  })
+                : [];
 
         let tokenGapIndex = 0;
         let gtGapIndex = 0;
 
         while (tokenGapIndex < tokenGap.length || gtGapIndex < gtGap.length) {
             if (tokenGapIndex >= tokenGap.length) {
-                result.push(pushInsertion(gtGap, gtGapIndex, tokenGap, currentTokenIndex));
+                result.push(insertions[gtGapIndex - tokenGap.length]);
                 gtGapIndex++;
                 continue;
             }
@@ -188,13 +584,9 @@ const processGaps = (
             gtGapIndex++;
         }
 
-        result.push({
-            ...tokens[currentTokenIndex],
-            text: groundTruthWords[currentGtIndex],
-        });
+        result.push(...groundAnchor(tokens, groundTruthWords, anchor));
 
-        lastTokenIndex = currentTokenIndex;
-        lastGtIndex = currentGtIndex;
+        [lastTokenIndex, lastGtIndex] = getAnchorEnd(anchor);
     }
 
     return { lastGtIndex, lastTokenIndex, result };
@@ -208,8 +600,8 @@ const processFinalTail = (
     result: GroundedToken[],
     tokens: Token[],
     groundTruthWords: string[],
-    lastTokenIndex: number,
-    lastGtIndex: number,
+    [lastTokenIndex, lastGtIndex]: [number, number],
+    { anchorEdges = true, interpolation }: SyncTokensOptions,
 ): void => {
     const finalTokenGap = tokens.slice(lastTokenIndex + 1);
     const finalGtGap = groundTruthWords.slice(lastGtIndex + 1);
@@ -217,13 +609,30 @@ const processFinalTail = (
     // With enforced first/last anchors (when both sequences have length > 1), we should
     // not have any remaining ground-truth words after the last anchor. The only realistic
     // tail we can handle is extra tokens (mark as unknown).
-    if (finalGtGap.length > 0) {
+    if (anchorEdges && finalGtGap.length > 0) {
         return;
     }
 
-    for (const token of finalTokenGap) {
-        result.push({ ...token, isUnknown: true });
-    }
+    // Otherwise the remaining words take the remaining tokens in order, and any words left over are placed right
+    // after the last token without a duration of their own.
+    const paired = Math.min(finalTokenGap.length, finalGtGap.length);
+
+    finalTokenGap.forEach((token, i) => {
+        result.push(i < paired ? { ...token, text: finalGtGap[i] } : { ...token, isUnknown: true });
+    });
+
+    const end = result.at(-1)?.end ?? 0;
+    result.push(...interpolateWordTimings(end, end, finalGtGap.slice(paired), interpolation));
+};
+
+export type SyncTokensOptions = InterpolationOptions & {
+    /**
+     * Anchor the first token to the first word and the last token to the last word even when they do not match, as
+     * suits a single segment. Defaults to `true`. Turn it off when the ground truth may start or end with words that
+     * were never spoken in these tokens, such as a heading added to a whole document: every word is then kept, and
+     * words after the last match that have no token left are placed after it without a duration.
+     */
+    anchorEdges?: boolean;
 };
 
 /**
@@ -233,26 +642,50 @@ const processFinalTail = (
  *
  * @param tokens The word-by-word tokens from the AI.
  * @param groundTruth The human-agent verified text for the transcription.
+ * @param options How to time the ground truth words that match no token.
  * @returns The corrected tokens with a best-effort of the ground truth values applied.
  */
-export const syncTokensWithGroundTruth = (tokens: Token[], groundTruth: string): GroundedToken[] => {
+export const syncTokensWithGroundTruth = (
+    tokens: Token[],
+    groundTruth: string,
+    options?: InterpolationOptions,
+): GroundedToken[] => syncTokensWithGroundTruthWords(tokens, tokenizeGroundTruth(groundTruth), options);
+
+/**
+ * Same as `syncTokensWithGroundTruth`, for ground truth that was already split with `tokenizeGroundTruth`. Every
+ * token that is not flagged with `isUnknown` carries one of the words, in order.
+ *
+ * @param tokens The word-by-word tokens from the AI.
+ * @param groundTruthWords The words of the human-agent verified text.
+ * @param options How to time the ground truth words that match no token, and whether to anchor the edges.
+ * @returns The corrected tokens with a best-effort of the ground truth values applied.
+ */
+export const syncTokensWithGroundTruthWords = (
+    tokens: Token[],
+    groundTruthWords: string[],
+    options: SyncTokensOptions = {},
+): GroundedToken[] => {
     if (tokens.length === 0) {
         return [];
     }
 
-    const groundTruthWords = tokenizeGroundTruth(groundTruth);
     if (groundTruthWords.length === 0) {
         return tokens.map((token) => ({ ...token, isUnknown: true }));
     }
 
     // 1. Find reliable alignment points (anchors).
-    const anchors = findAnchors(tokens, groundTruthWords);
+    const anchors = findAnchors(tokens, groundTruthWords, options.anchorEdges);
 
     // 2. Process the segments between the anchors.
-    const { lastGtIndex, lastTokenIndex, result } = processGaps(tokens, groundTruthWords, anchors);
+    const { lastGtIndex, lastTokenIndex, result } = processGaps(
+        tokens,
+        groundTruthWords,
+        anchors,
+        options.interpolation,
+    );
 
     // 3. Process any remaining tokens after the last anchor.
-    processFinalTail(result, tokens, groundTruthWords, lastTokenIndex, lastGtIndex);
+    processFinalTail(result, tokens, groundTruthWords, [lastTokenIndex, lastGtIndex], options);
 
     return result;
 };